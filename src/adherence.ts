@@ -0,0 +1,123 @@
+import { numberOrZero } from "./lib.js";
+import type { LoggingRule, MealType } from "./types.js";
+
+export interface AdherenceInput {
+  /** Consecutive dates, oldest first. */
+  dates: string[];
+  /** Calories logged per date; dates without totals are absent. */
+  calories: Map<string, number>;
+  /** Meal types with at least one entry, per date. */
+  meals: Map<string, Set<string>>;
+  /** The user's meal types in display order, checked for skipped meals. */
+  mealTypes: MealType[];
+  /** Calorie goal in force per date; dates without a goal are absent. */
+  goals: Map<string, number>;
+  rule: LoggingRule;
+  /** Allowed distance from the calorie goal, as a percentage of the goal. */
+  tolerance: number;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+  longest_start: string | null;
+  longest_end: string | null;
+}
+
+export interface GoalAdherence {
+  days_with_goal: number;
+  within: number;
+  over: number;
+  under: number;
+  /** Share of logged days with a goal that landed within tolerance, 0-1. */
+  rate: number | null;
+}
+
+export interface SkippedMeal {
+  meal_type: MealType;
+  days: number;
+  /** Share of days with any entry that were missing this meal, 0-1. */
+  rate: number;
+}
+
+export interface AdherenceReport {
+  days: number;
+  logged_days: number;
+  streaks: Streaks;
+  goal: GoalAdherence;
+  skipped_meals: SkippedMeal[];
+}
+
+/** Whether a day counts as logged: enough calories and every required meal present. */
+export function isLoggedDay(calories: number, meals: Set<string>, rule: LoggingRule): boolean {
+  return calories >= rule.min_calories && rule.require_meals.every((meal) => meals.has(meal));
+}
+
+/**
+ * Derives streaks, goal adherence and skipped meals for a range. The current streak
+ * ends on the last date, or the day before when the last date is not logged yet, so an
+ * unfinished today does not reset it. Goal adherence only looks at logged days.
+ */
+export function computeAdherence(input: AdherenceInput): AdherenceReport {
+  const logged = input.dates.map((date) =>
+    isLoggedDay(input.calories.get(date) || 0, input.meals.get(date) || new Set(), input.rule)
+  );
+
+  const goal: GoalAdherence = { days_with_goal: 0, within: 0, over: 0, under: 0, rate: null };
+  input.dates.forEach((date, index) => {
+    const target = input.goals.get(date);
+    if (!logged[index] || typeof target !== "number") {
+      return;
+    }
+    const calories = input.calories.get(date) || 0;
+    const allowed = (target * input.tolerance) / 100;
+    goal.days_with_goal += 1;
+    if (calories > target + allowed) {
+      goal.over += 1;
+    } else if (calories < target - allowed) {
+      goal.under += 1;
+    } else {
+      goal.within += 1;
+    }
+  });
+  goal.rate = goal.days_with_goal ? numberOrZero(goal.within / goal.days_with_goal) : null;
+
+  const daysWithEntries = input.dates.filter((date) => (input.meals.get(date)?.size || 0) > 0);
+  const skipped_meals = input.mealTypes.map((meal) => {
+    const days = daysWithEntries.filter((date) => !input.meals.get(date)?.has(meal)).length;
+    return { meal_type: meal, days, rate: daysWithEntries.length ? numberOrZero(days / daysWithEntries.length) : 0 };
+  })
+    .filter((meal) => meal.days > 0)
+    .sort((a, b) => b.days - a.days);
+
+  return {
+    days: input.dates.length,
+    logged_days: logged.filter(Boolean).length,
+    streaks: streaks_(input.dates, logged),
+    goal,
+    skipped_meals
+  };
+}
+
+function streaks_(dates: string[], logged: boolean[]): Streaks {
+  const result: Streaks = { current: 0, longest: 0, longest_start: null, longest_end: null };
+  let run = 0;
+  logged.forEach((isLogged, index) => {
+    run = isLogged ? run + 1 : 0;
+    if (run > result.longest) {
+      result.longest = run;
+      result.longest_start = dates[index - run + 1];
+      result.longest_end = dates[index];
+    }
+  });
+
+  let index = logged.length - 1;
+  if (index >= 0 && !logged[index]) {
+    index -= 1;
+  }
+  while (index >= 0 && logged[index]) {
+    result.current += 1;
+    index -= 1;
+  }
+  return result;
+}
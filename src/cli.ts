@@ -0,0 +1,69 @@
+import { parseArgs } from "node:util";
+import { createStorageFromEnv } from "./config.js";
+import { reconcileTotals } from "./reconcile.js";
+
+const USAGE = `Usage:
+  cli reconcile --user <user_id> --start YYYY-MM-DD --end YYYY-MM-DD [--repair]
+  cli backfill-search
+  cli migrate-user --user <user_id>`;
+
+async function main(argv: string[]) {
+  const [command, ...rest] = argv;
+  if (command === "backfill-search") {
+    const updated = await createStorageFromEnv().backfillSearchTokens();
+    console.log(`Updated search tokens on ${updated} entr${updated === 1 ? "y" : "ies"}.`);
+    return 0;
+  }
+  if (command === "migrate-user") {
+    const { values } = parseArgs({ args: rest, options: { user: { type: "string" } } });
+    if (!values.user) {
+      console.error(USAGE);
+      return 1;
+    }
+    const migrated = await createStorageFromEnv().adoptLegacyData(values.user);
+    console.log(
+      `Assigned ${migrated.entries} entr${migrated.entries === 1 ? "y" : "ies"} and ${migrated.totals} daily total(s) to ${values.user}.`
+    );
+    return 0;
+  }
+  if (command !== "reconcile") {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const { values } = parseArgs({
+    args: rest,
+    options: {
+      user: { type: "string" },
+      start: { type: "string" },
+      end: { type: "string" },
+      repair: { type: "boolean", default: false }
+    }
+  });
+  if (!values.user || !values.start || !values.end) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const report = await reconcileTotals(createStorageFromEnv(), values.user, values.start, values.end, {
+    repair: values.repair
+  });
+  for (const mismatch of report.mismatches) {
+    console.log(
+      `${mismatch.date}: stored ${mismatch.stored.total_calories} kcal, entries sum to ${mismatch.computed.total_calories} kcal`
+    );
+  }
+  console.log(
+    `${report.mismatches.length} mismatched date(s) out of ${report.checked_dates} checked` +
+      (report.repaired ? "; repaired." : ". Re-run with --repair to fix them.")
+  );
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
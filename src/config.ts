@@ -0,0 +1,30 @@
+import { createSqliteStorage } from "./sqlite.js";
+import { createFirestoreStorage, type StorageAdapter } from "./storage.js";
+
+/**
+ * Builds the storage adapter selected by `STORAGE_BACKEND`: Firestore (the default), using the
+ * `COLLECTION_*` names, or a SQLite file at `SQLITE_PATH`.
+ */
+export function createStorageFromEnv(env: NodeJS.ProcessEnv = process.env): StorageAdapter {
+  const backend = (env.STORAGE_BACKEND || "firestore").toLowerCase();
+  if (backend === "sqlite") {
+    return createSqliteStorage(env.SQLITE_PATH || "calories.db");
+  }
+  if (backend !== "firestore") {
+    throw new Error(`Unknown STORAGE_BACKEND "${env.STORAGE_BACKEND}". Use firestore or sqlite.`);
+  }
+  return createFirestoreStorage({
+    entries: env.COLLECTION_ENTRIES || "entries",
+    totals: env.COLLECTION_TOTALS || "daily_totals",
+    goals: env.COLLECTION_GOALS || "goals",
+    foods: env.COLLECTION_FOODS || "foods",
+    recipes: env.COLLECTION_RECIPES || "recipes",
+    revisions: env.COLLECTION_REVISIONS || "revisions",
+    weights: env.COLLECTION_WEIGHTS || "weights",
+    activities: env.COLLECTION_ACTIVITIES || "activities",
+    webhooks: env.COLLECTION_WEBHOOKS || "webhooks",
+    webhookDeliveries: env.COLLECTION_WEBHOOK_DELIVERIES || "webhook_deliveries",
+    idempotencyKeys: env.COLLECTION_IDEMPOTENCY_KEYS || "idempotency_keys",
+    settings: env.COLLECTION_SETTINGS || "settings"
+  });
+}
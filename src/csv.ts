@@ -0,0 +1,86 @@
+import type { Entry } from "./storage.js";
+
+export const ENTRY_CSV_COLUMNS: Array<keyof Entry> = [
+  "entry_id",
+  "timestamp",
+  "date",
+  "meal_type",
+  "item",
+  "quantity",
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "confidence",
+  "source",
+  "raw_text"
+];
+
+export const TOTALS_CSV_COLUMNS = ["date", "total_calories", "total_protein", "total_carbs", "total_fat", "total_fiber"];
+
+/** Formats one CSV line (with trailing newline), quoting fields that contain separators, quotes or line breaks. */
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCsvField_).join(",")}\r\n`;
+}
+
+function formatCsvField_(value: unknown): string {
+  if (value === null || typeof value === "undefined") {
+    return "";
+  }
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/** Parses CSV text into rows of fields, handling quoted fields, escaped quotes, CRLF and a leading BOM. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
@@ -0,0 +1,104 @@
+/**
+ * Calendar-date helpers. Dates are `YYYY-MM-DD` strings and all arithmetic is done
+ * in UTC, so results never depend on the container's local timezone.
+ */
+
+import type { Weekday } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NUMBERS: Record<Weekday, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6
+};
+
+export interface ZonedNow {
+  timezone: string;
+  date: string;
+  time: string;
+  utc_offset: string;
+}
+
+export function parseDate(value: string): Date {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error("Invalid date format. Use YYYY-MM-DD");
+  }
+  return date;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(parseDate(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function validateRange(start: string, end: string) {
+  if (parseDate(start) > parseDate(end)) {
+    throw new Error("start must be before end");
+  }
+}
+
+export function enumerateDates(start: string, end: string): string[] {
+  validateRange(start, end);
+  const dates: string[] = [];
+  for (let current = start; current <= end; current = addDays(current, 1)) {
+    dates.push(current);
+  }
+  return dates;
+}
+
+/** The first date of the week containing `date`, for weeks starting on `weekStart`. */
+export function startOfWeek(date: string, weekStart: Weekday = "monday"): string {
+  const offset = (parseDate(date).getUTCDay() - WEEKDAY_NUMBERS[weekStart] + 7) % 7;
+  return addDays(date, -offset);
+}
+
+/** ISO 8601 week label such as `2026-W06`; the week belongs to the year its Thursday falls in. */
+export function isoWeek(date: string): string {
+  const thursday = addDays(startOfWeek(date, "monday"), 3);
+  const year = thursday.slice(0, 4);
+  const dayOfYear = (parseDate(thursday).getTime() - parseDate(`${year}-01-01`).getTime()) / DAY_MS;
+  return `${year}-W${String(Math.floor(dayOfYear / 7) + 1).padStart(2, "0")}`;
+}
+
+export function assertTimeZone(value: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Invalid timezone: ${value}. Use an IANA name such as Europe/London.`);
+  }
+}
+
+/** The calendar date in `timeZone` at the instant `now`. */
+export function dateInTimeZone(now: Date, timeZone: string): string {
+  return zonedNow(timeZone, now).date;
+}
+
+export function zonedNow(timeZone: string, now = new Date()): ZonedNow {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+      timeZoneName: "longOffset"
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  const offset = String(parts.timeZoneName || "").replace("GMT", "");
+  return {
+    timezone: timeZone,
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+    utc_offset: offset || "+00:00"
+  };
+}
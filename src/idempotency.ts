@@ -0,0 +1,34 @@
+import { createHash } from "node:crypto";
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export const DEFAULT_IDEMPOTENCY_RETENTION_HOURS = 24;
+
+/**
+ * How long a key stays claimed by a request that has not answered yet. It matches Cloud Run's default
+ * request timeout, so only a request that was killed mid-way releases its key this way.
+ */
+export const IDEMPOTENCY_LOCK_MS = 5 * 60 * 1000;
+
+/** The `Idempotency-Key` header value, or null when the request has none. */
+export function parseIdempotencyKey(value: string | string[] | undefined): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    throw new Error("Send a single Idempotency-Key header");
+  }
+  const key = value.trim();
+  if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new Error(`Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+  return key;
+}
+
+/** Identifies a request by method, URL (with query) and body, to tell a retry from a different request reusing a key. */
+export function requestHash(method: string, url: string, body: unknown): string {
+  const serialized = typeof body === "string" ? body : JSON.stringify(body ?? null);
+  return createHash("sha256").update(`${method} ${url}\n${serialized}`).digest("hex");
+}
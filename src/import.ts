@@ -0,0 +1,160 @@
+import { parseCsv } from "./csv.js";
+import { DEFAULT_MEAL_TYPES, normalizeMealType, numberOrZero } from "./lib.js";
+import type { EntryInput } from "./storage.js";
+import type { MealTypeSetting } from "./types.js";
+
+export type ImportFormat = "native" | "myfitnesspal";
+
+export interface ImportRowError {
+  /** 1-based line in the CSV, counting the header as row 1. */
+  row: number;
+  error: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  rows: number;
+  entries: EntryInput[];
+  errors: ImportRowError[];
+}
+
+export interface ImportOptions {
+  format?: ImportFormat | "auto";
+  /** Timestamp for rows that don't carry their own. */
+  timestamp: string;
+  source: string;
+  /** The importing user's meal types; the defaults when omitted. */
+  mealTypes?: MealTypeSetting[];
+}
+
+const MFP_COLUMNS = {
+  date: ["date"],
+  meal: ["meal"],
+  item: ["food", "food name", "name", "description"],
+  quantity: ["serving", "serving size", "servings", "quantity"],
+  calories: ["calories"],
+  protein: ["protein (g)", "protein"],
+  carbs: ["carbohydrates (g)", "carbohydrates", "carbs (g)", "carbs"],
+  fat: ["fat (g)", "fat"],
+  fiber: ["fiber", "fiber (g)", "fibre", "fibre (g)"],
+  note: ["note", "notes"]
+};
+
+/**
+ * Maps CSV rows onto entries. Accepts this service's own export layout or a
+ * MyFitnessPal-style food diary (Date, Meal, Food, Calories, Fat (g), ...).
+ * Invalid rows are reported in `errors` and left out of `entries`.
+ */
+export function parseImport(csv: string, options: ImportOptions): ImportResult {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new Error("CSV is empty");
+  }
+  const columns = header.map((name) => name.toLowerCase().trim());
+  const format = !options.format || options.format === "auto" ? detectFormat_(columns) : options.format;
+  if (format !== "native" && format !== "myfitnesspal") {
+    throw new Error("Invalid format. Use native, myfitnesspal or auto.");
+  }
+
+  const entries: EntryInput[] = [];
+  const errors: ImportRowError[] = [];
+  rows.forEach((values, index) => {
+    const row = index + 2;
+    try {
+      const record = Object.fromEntries(columns.map((column, position) => [column, (values[position] || "").trim()]));
+      entries.push(format === "native" ? mapNativeRow_(record, options) : mapMyFitnessPalRow_(record, options));
+    } catch (err) {
+      errors.push({ row, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  return { format, rows: rows.length, entries, errors };
+}
+
+function detectFormat_(columns: string[]): ImportFormat {
+  if (columns.includes("meal_type") && columns.includes("item")) {
+    return "native";
+  }
+  if (columns.includes("meal") && columns.includes("calories")) {
+    return "myfitnesspal";
+  }
+  throw new Error("Unrecognised CSV header. Use the /export layout or a MyFitnessPal-style food diary.");
+}
+
+function mapNativeRow_(record: Record<string, string>, options: ImportOptions): EntryInput {
+  const item = record.item;
+  if (!item) {
+    throw new Error("Missing item");
+  }
+  return {
+    timestamp: parseTimestamp_(record.timestamp) || options.timestamp,
+    date: parseDate_(record.date),
+    meal_type: normalizeMealType(record.meal_type, options.mealTypes || DEFAULT_MEAL_TYPES),
+    item,
+    quantity: record.quantity || "",
+    calories: parseNumber_(record.calories, "calories", true),
+    protein: parseNumber_(record.protein, "protein"),
+    carbs: parseNumber_(record.carbs, "carbs"),
+    fat: parseNumber_(record.fat, "fat"),
+    fiber: parseNumber_(record.fiber, "fiber"),
+    confidence: record.confidence ? parseNumber_(record.confidence, "confidence") : 1,
+    source: record.source || options.source,
+    raw_text: record.raw_text || ""
+  };
+}
+
+function mapMyFitnessPalRow_(record: Record<string, string>, options: ImportOptions): EntryInput {
+  const pick = (names: string[]) => names.map((name) => record[name]).find((value) => typeof value !== "undefined") || "";
+  const meal = pick(MFP_COLUMNS.meal);
+  const mealType = normalizeMealType(meal, options.mealTypes || DEFAULT_MEAL_TYPES);
+  return {
+    timestamp: options.timestamp,
+    date: parseDate_(pick(MFP_COLUMNS.date)),
+    meal_type: mealType,
+    item: pick(MFP_COLUMNS.item) || `${meal} (imported)`,
+    quantity: pick(MFP_COLUMNS.quantity),
+    calories: parseNumber_(pick(MFP_COLUMNS.calories), "calories", true),
+    protein: parseNumber_(pick(MFP_COLUMNS.protein), "protein"),
+    carbs: parseNumber_(pick(MFP_COLUMNS.carbs), "carbs"),
+    fat: parseNumber_(pick(MFP_COLUMNS.fat), "fat"),
+    fiber: parseNumber_(pick(MFP_COLUMNS.fiber), "fiber"),
+    confidence: 1,
+    source: options.source,
+    raw_text: pick(MFP_COLUMNS.note)
+  };
+}
+
+function parseDate_(value: string): string {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const date = iso ? value : us ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}` : "";
+  if (!date || Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+    throw new Error(`Invalid date: ${value || "(empty)"}. Use YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function parseTimestamp_(value: string): string {
+  if (!value) {
+    return "";
+  }
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return time.toISOString();
+}
+
+function parseNumber_(value: string, field: string, required = false): number {
+  if (!value) {
+    if (required) {
+      throw new Error(`Missing ${field}`);
+    }
+    return 0;
+  }
+  const num = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return numberOrZero(num);
+}
@@ -1,16 +1,32 @@
+import { createStorageFromEnv } from "./config.js";
+import { parseAuthTokens } from "./lib.js";
 import { buildServer } from "./server.js";
-import { createFirestoreStorage } from "./storage.js";
 
 const PORT = Number(process.env.PORT || 8080);
-const AUTH_TOKEN = process.env.AUTH_TOKEN || "CHANGE_ME";
-const COLLECTION_ENTRIES = process.env.COLLECTION_ENTRIES || "entries";
-const COLLECTION_TOTALS = process.env.COLLECTION_TOTALS || "daily_totals";
+const AUTH_TOKENS = process.env.AUTH_TOKENS || "";
+const AUTH_TOKEN = process.env.AUTH_TOKEN || (AUTH_TOKENS ? "" : "CHANGE_ME");
+const DEFAULT_USER_ID = process.env.DEFAULT_USER_ID || "default";
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "UTC";
+const PUBLIC_URL = process.env.PUBLIC_URL || undefined;
+const IDEMPOTENCY_RETENTION_HOURS = process.env.IDEMPOTENCY_RETENTION_HOURS
+  ? Number(process.env.IDEMPOTENCY_RETENTION_HOURS)
+  : undefined;
+const ALLOW_PRIVATE_WEBHOOK_URLS = process.env.ALLOW_PRIVATE_WEBHOOK_URLS === "1";
 
-const storage = createFirestoreStorage(COLLECTION_ENTRIES, COLLECTION_TOTALS);
+const authTokens = parseAuthTokens(AUTH_TOKENS);
+if (AUTH_TOKEN) {
+  authTokens[AUTH_TOKEN] = DEFAULT_USER_ID;
+}
+
+const storage = createStorageFromEnv();
 
 const app = buildServer({
-  authToken: AUTH_TOKEN,
-  storage
+  authTokens,
+  storage,
+  defaultTimezone: DEFAULT_TIMEZONE,
+  publicUrl: PUBLIC_URL,
+  idempotencyRetentionHours: IDEMPOTENCY_RETENTION_HOURS,
+  allowPrivateWebhookUrls: ALLOW_PRIVATE_WEBHOOK_URLS
 });
 
 app.listen({ port: PORT, host: "0.0.0.0" }, (err) => {
@@ -1,23 +1,109 @@
-import type { MealType, LogItem, LogRequest, UpdateRequest, DeleteRequest } from "./types.js";
+import type {
+  ActivityRequest,
+  GoalRequest,
+  GoalTargets,
+  Weekday,
+  MealType,
+  MacroField,
+  Nutrients,
+  DailyTotals,
+  LogItem,
+  LogRequest,
+  LoggingRule,
+  MealTypeSetting,
+  UpdateRequest,
+  DeleteRequest,
+  BatchOperationType,
+  BatchRequest,
+  CopyRequest,
+  ConfirmRequest,
+  FoodRequest,
+  RecipeRequest,
+  SettingsRequest,
+  WebhookRequest,
+  WeightRequest
+} from "./types.js";
+import { assertTimeZone, dateInTimeZone } from "./dates.js";
+import type { EntryCursor, PageRequest, Recipe, RecipeInput, SavedFood } from "./storage.js";
+import { isPrivateHost, WEBHOOK_EVENT_TYPES } from "./webhooks.js";
 
-const MEAL_TYPES: MealType[] = ["breakfast", "lunch", "dinner", "snacks"];
+/** Stored records that log items may reference instead of carrying raw values. */
+export interface LogReferences {
+  foods?: Record<string, SavedFood>;
+  recipes?: Record<string, Recipe>;
+}
+
+/** Meal types in display order, used until a user configures their own in settings. */
+export const DEFAULT_MEAL_TYPES: MealTypeSetting[] = [
+  { name: "breakfast", aliases: [] },
+  { name: "lunch", aliases: [] },
+  { name: "dinner", aliases: ["supper"] },
+  { name: "snacks", aliases: ["snack"] }
+];
+
+const MAX_MEAL_TYPES = 20;
+
+/** Without a rule of their own, any day with calories logged counts. */
+export const DEFAULT_LOGGING_RULE: LoggingRule = { require_meals: [], min_calories: 1 };
+
+/** Confidence below which entries wait for review, for users without a `review_threshold` setting. */
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+export const MACRO_FIELDS: MacroField[] = ["protein", "carbs", "fat", "fiber"];
 
-export function normalizeDate(value: unknown): string {
+const WEEKDAYS: Weekday[] = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+export function normalizeDate(value: unknown, timeZone = "UTC"): string {
   if (!value) {
     return "";
   }
   if (value instanceof Date) {
-    return value.toISOString().slice(0, 10);
+    return dateInTimeZone(value, timeZone);
   }
   return String(value).trim();
 }
 
-export function normalizeMealType(value: unknown): MealType {
-  const meal = String(value || "").toLowerCase().trim() as MealType;
-  if (MEAL_TYPES.includes(meal)) {
-    return meal;
+/** Resolves a meal type or one of its aliases to the configured name, ignoring case and extra spaces. */
+export function normalizeMealType(value: unknown, mealTypes: MealTypeSetting[] = DEFAULT_MEAL_TYPES): MealType {
+  const meal = mealKey_(value);
+  const match = mealTypes.find((mealType) => mealType.name === meal || mealType.aliases.includes(meal));
+  if (match) {
+    return match.name;
+  }
+  const names = mealTypes.map((mealType) => mealType.name);
+  const choices = names.length > 2 ? `${names.slice(0, -1).join(", ")}, or ${names[names.length - 1]}` : names.join(" or ");
+  throw new Error(`Invalid meal_type. Use ${choices}.`);
+}
+
+export function validateMealTypes(payload: MealTypeSetting[]): MealTypeSetting[] {
+  if (!Array.isArray(payload) || payload.length === 0) {
+    throw new Error("meal_types must be a non-empty array");
+  }
+  if (payload.length > MAX_MEAL_TYPES) {
+    throw new Error(`meal_types can have at most ${MAX_MEAL_TYPES} entries`);
   }
-  throw new Error("Invalid meal_type. Use breakfast, lunch, dinner, or snacks.");
+  const seen = new Set<string>();
+  return payload.map((mealType) => {
+    const name = mealKey_(requireField(mealType, "name"));
+    if (!Array.isArray(mealType.aliases ?? [])) {
+      throw new Error(`aliases of ${name} must be a list`);
+    }
+    const aliases = Array.from(new Set((mealType.aliases || []).map(mealKey_).filter((alias) => alias && alias !== name)));
+    for (const key of [name, ...aliases]) {
+      if (!key) {
+        throw new Error("Meal type names cannot be empty");
+      }
+      if (seen.has(key)) {
+        throw new Error(`Duplicate meal type or alias: ${key}`);
+      }
+      seen.add(key);
+    }
+    return { name, aliases };
+  });
+}
+
+function mealKey_(value: unknown): string {
+  return String(value || "").toLowerCase().trim().replace(/\s+/g, " ");
 }
 
 export function numberOrZero(value: unknown): number {
@@ -28,6 +114,50 @@ export function numberOrZero(value: unknown): number {
   return Math.round(num * 100) / 100;
 }
 
+export function nutrientsOf(value: Partial<Record<keyof Nutrients, unknown>>): Nutrients {
+  return {
+    calories: numberOrZero(value.calories),
+    protein: numberOrZero(value.protein),
+    carbs: numberOrZero(value.carbs),
+    fat: numberOrZero(value.fat),
+    fiber: numberOrZero(value.fiber)
+  };
+}
+
+export function addNutrients(a: Nutrients, b: Nutrients, sign = 1): Nutrients {
+  return {
+    calories: numberOrZero(a.calories + sign * b.calories),
+    protein: numberOrZero(a.protein + sign * b.protein),
+    carbs: numberOrZero(a.carbs + sign * b.carbs),
+    fat: numberOrZero(a.fat + sign * b.fat),
+    fiber: numberOrZero(a.fiber + sign * b.fiber)
+  };
+}
+
+export function isZeroNutrients(value: Nutrients): boolean {
+  return value.calories === 0 && MACRO_FIELDS.every((field) => value[field] === 0);
+}
+
+export function toDailyTotals(value: Nutrients): DailyTotals {
+  return {
+    total_calories: value.calories,
+    total_protein: value.protein,
+    total_carbs: value.carbs,
+    total_fat: value.fat,
+    total_fiber: value.fiber
+  };
+}
+
+export function fromDailyTotals(value: Partial<Record<keyof DailyTotals, unknown>>): Nutrients {
+  return nutrientsOf({
+    calories: value.total_calories,
+    protein: value.total_protein,
+    carbs: value.total_carbs,
+    fat: value.total_fat,
+    fiber: value.total_fiber
+  });
+}
+
 export function requireField<T extends object, K extends keyof T>(payload: T, key: K): T[K] {
   const value = payload[key];
   if (!value) {
@@ -36,6 +166,30 @@ export function requireField<T extends object, K extends keyof T>(payload: T, ke
   return value;
 }
 
+/** Opaque `next_cursor` token handed to clients; only `decodeCursor` looks inside it. */
+export function encodeCursor(cursor: EntryCursor): string {
+  return Buffer.from(JSON.stringify([cursor.date, cursor.timestamp, cursor.entry_id])).toString("base64url");
+}
+
+export function decodeCursor(token: string): EntryCursor {
+  try {
+    const [date, timestamp, entryId] = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if ([date, timestamp, entryId].every((value) => typeof value === "string")) {
+      return { date, timestamp, entry_id: entryId };
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new Error("Invalid cursor. Pass next_cursor from a previous response unchanged.");
+}
+
+export function toPageRequest(query: { limit: number; offset?: number; cursor?: string }): PageRequest {
+  if (query.cursor && query.offset) {
+    throw new Error("Use either cursor or offset, not both");
+  }
+  return { limit: query.limit, ...(query.cursor ? { cursor: decodeCursor(query.cursor) } : { offset: query.offset || 0 }) };
+}
+
 export function fingerprint(value?: string): string {
   if (!value) {
     return "";
@@ -46,19 +200,62 @@ export function fingerprint(value?: string): string {
   return `${value.slice(0, 4)}...${value.slice(-4)}`;
 }
 
-export function validateLogRequest(payload: LogRequest): LogRequest {
+/**
+ * Parses `user:token` pairs separated by commas (e.g. `alice:abc123,bob:def456`)
+ * into a token-to-user lookup.
+ */
+export function parseAuthTokens(value: string): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const pair of value.split(",")) {
+    const trimmed = pair.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const separator = trimmed.indexOf(":");
+    const userId = separator > 0 ? trimmed.slice(0, separator).trim() : "";
+    const token = separator > 0 ? trimmed.slice(separator + 1).trim() : "";
+    if (!userId || !token) {
+      throw new Error(`Invalid auth token entry: ${fingerprint(trimmed)}. Use user:token.`);
+    }
+    if (tokens[token]) {
+      throw new Error(`Duplicate auth token for users ${tokens[token]} and ${userId}`);
+    }
+    tokens[token] = userId;
+  }
+  return tokens;
+}
+
+export function validateLogRequest(
+  payload: LogRequest,
+  refs: LogReferences = {},
+  mealTypes: MealTypeSetting[] = DEFAULT_MEAL_TYPES
+): LogRequest {
   const date = normalizeDate(payload.date);
-  const mealType = normalizeMealType(payload.meal_type);
+  const mealType = normalizeMealType(payload.meal_type, mealTypes);
   if (!payload.items || payload.items.length === 0) {
     throw new Error("items must be a non-empty array");
   }
 
-  const items: LogItem[] = payload.items.map((item) => ({
-    name: String(item.name || ""),
-    quantity: item.quantity ? String(item.quantity) : "",
-    calories: numberOrZero(item.calories),
-    confidence: numberOrZero(item.confidence)
-  }));
+  const items: LogItem[] = payload.items.flatMap((item) => {
+    if (item.food_id) {
+      return [resolveFoodItem_(item, refs)];
+    }
+    if (item.recipe_id) {
+      return resolveRecipeItem_(item, refs);
+    }
+    return [
+      {
+        name: String(item.name || ""),
+        quantity: item.quantity ? String(item.quantity) : "",
+        calories: numberOrZero(item.calories),
+        protein: numberOrZero(item.protein),
+        carbs: numberOrZero(item.carbs),
+        fat: numberOrZero(item.fat),
+        fiber: numberOrZero(item.fiber),
+        confidence: typeof item.confidence === "undefined" ? 1 : numberOrZero(item.confidence)
+      }
+    ];
+  });
 
   return {
     ...payload,
@@ -68,16 +265,20 @@ export function validateLogRequest(payload: LogRequest): LogRequest {
   };
 }
 
-export function validateUpdateRequest(payload: UpdateRequest): UpdateRequest {
+export function validateUpdateRequest(payload: UpdateRequest, mealTypes: MealTypeSetting[] = DEFAULT_MEAL_TYPES): UpdateRequest {
   const updates = payload.updates || {};
   return {
     entry_id: payload.entry_id,
     updates: {
       date: updates.date ? normalizeDate(updates.date) : undefined,
-      meal_type: updates.meal_type ? normalizeMealType(updates.meal_type) : undefined,
+      meal_type: updates.meal_type ? normalizeMealType(updates.meal_type, mealTypes) : undefined,
       item: typeof updates.item === "undefined" ? undefined : String(updates.item),
       quantity: typeof updates.quantity === "undefined" ? undefined : String(updates.quantity),
       calories: typeof updates.calories === "undefined" ? undefined : numberOrZero(updates.calories),
+      protein: typeof updates.protein === "undefined" ? undefined : numberOrZero(updates.protein),
+      carbs: typeof updates.carbs === "undefined" ? undefined : numberOrZero(updates.carbs),
+      fat: typeof updates.fat === "undefined" ? undefined : numberOrZero(updates.fat),
+      fiber: typeof updates.fiber === "undefined" ? undefined : numberOrZero(updates.fiber),
       confidence: typeof updates.confidence === "undefined" ? undefined : numberOrZero(updates.confidence),
       source: typeof updates.source === "undefined" ? undefined : String(updates.source),
       raw_text: typeof updates.raw_text === "undefined" ? undefined : String(updates.raw_text)
@@ -85,6 +286,429 @@ export function validateUpdateRequest(payload: UpdateRequest): UpdateRequest {
   };
 }
 
+export function validateConfirmRequest(payload: ConfirmRequest): ConfirmRequest {
+  const confirmed: ConfirmRequest = { entry_id: String(requireField(payload, "entry_id")) };
+  for (const field of ["calories", ...MACRO_FIELDS] as const) {
+    if (typeof payload[field] === "undefined") {
+      continue;
+    }
+    const value = Number(payload[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${field} must be a non-negative number`);
+    }
+    confirmed[field] = numberOrZero(value);
+  }
+  return confirmed;
+}
+
+export function validateReviewThreshold(value: unknown): number {
+  const threshold = Number(value);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+    throw new Error("review_threshold must be between 0 and 1");
+  }
+  return threshold;
+}
+
+/**
+ * Whether an entry is still an unconfirmed estimate: below the confidence threshold and never reviewed. An entry
+ * without a confidence was not an estimate, so it never needs review.
+ */
+export function needsReview(entry: { confidence?: number; reviewed_at?: string | null }, threshold: number): boolean {
+  return !entry.reviewed_at && typeof entry.confidence === "number" && entry.confidence < threshold;
+}
+
+export function validateCopyRequest(
+  payload: CopyRequest,
+  mealTypes: MealTypeSetting[] = DEFAULT_MEAL_TYPES
+): CopyRequest & { to_date: string } {
+  return {
+    from_date: normalizeDate(requireField(payload, "from_date")),
+    to_date: normalizeDate(requireField(payload, "to_date")),
+    meal_type: payload.meal_type ? normalizeMealType(payload.meal_type, mealTypes) : undefined,
+    to_meal_type: payload.to_meal_type ? normalizeMealType(payload.to_meal_type, mealTypes) : undefined
+  };
+}
+
+/**
+ * Validates every operation of a batch up front and normalises `move` into an update of `date` and
+ * `meal_type`; errors name the failing operation by index. `delete` operations carry no updates.
+ */
+export function validateBatchRequest(
+  payload: BatchRequest,
+  mealTypes: MealTypeSetting[] = DEFAULT_MEAL_TYPES
+): Array<UpdateRequest & { op: BatchOperationType }> {
+  const operations = payload?.operations;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error("operations must be a non-empty array");
+  }
+  return operations.map((operation, index) => {
+    try {
+      const entryId = String(requireField(operation, "entry_id"));
+      if (operation.op === "delete") {
+        return { op: operation.op, entry_id: entryId, updates: {} };
+      }
+      if (operation.op === "move") {
+        if (!operation.date && !operation.meal_type) {
+          throw new Error("move needs a date or meal_type");
+        }
+        const updates = { date: operation.date, meal_type: operation.meal_type };
+        return { op: operation.op, ...validateUpdateRequest({ entry_id: entryId, updates }, mealTypes) };
+      }
+      if (operation.op === "update") {
+        if (!operation.updates) {
+          throw new Error("Missing payload field: updates");
+        }
+        return { op: operation.op, ...validateUpdateRequest({ entry_id: entryId, updates: operation.updates }, mealTypes) };
+      }
+      throw new Error("Invalid op. Use update, move, or delete.");
+    } catch (err) {
+      throw new Error(`operations[${index}]: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+}
+
 export function validateDeleteRequest(payload: DeleteRequest): DeleteRequest {
   return { entry_id: payload.entry_id };
 }
+
+export function validateFoodRequest(payload: FoodRequest): FoodRequest {
+  const name = String(requireField(payload, "name")).trim();
+  if (!name) {
+    throw new Error("Missing payload field: name");
+  }
+  const calories = Number(payload.calories);
+  if (!Number.isFinite(calories) || calories < 0) {
+    throw new Error("calories must be a non-negative number");
+  }
+  return {
+    name,
+    quantity: payload.quantity ? String(payload.quantity) : "",
+    ...nutrientsOf(payload)
+  };
+}
+
+export function validateRecipeRequest(payload: RecipeRequest): RecipeInput {
+  const name = String(requireField(payload, "name")).trim();
+  if (!name) {
+    throw new Error("Missing payload field: name");
+  }
+  const servings = Number(payload.servings);
+  if (!Number.isFinite(servings) || servings <= 0) {
+    throw new Error("servings must be a positive number");
+  }
+  if (!Array.isArray(payload.ingredients) || payload.ingredients.length === 0) {
+    throw new Error("ingredients must be a non-empty array");
+  }
+
+  const ingredients = payload.ingredients.map((ingredient, index) => {
+    try {
+      return validateFoodRequest(ingredient);
+    } catch (err) {
+      throw new Error(`ingredients[${index}]: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+
+  return {
+    name,
+    servings,
+    ingredients: ingredients.map((ingredient) => ({
+      ...nutrientsOf(ingredient),
+      name: ingredient.name,
+      quantity: ingredient.quantity || ""
+    }))
+  };
+}
+
+/** Nutrients in one serving of a recipe: the ingredient sum divided by the servings it yields. */
+export function recipeServingNutrients(recipe: RecipeInput, servings = 1): Nutrients {
+  const total = recipe.ingredients.reduce((sum, ingredient) => addNutrients(sum, nutrientsOf(ingredient)), nutrientsOf({}));
+  return scaleNutrients(total, servings / recipe.servings);
+}
+
+export function scaleNutrients(value: Nutrients, factor: number): Nutrients {
+  return {
+    calories: numberOrZero(value.calories * factor),
+    protein: numberOrZero(value.protein * factor),
+    carbs: numberOrZero(value.carbs * factor),
+    fat: numberOrZero(value.fat * factor),
+    fiber: numberOrZero(value.fiber * factor)
+  };
+}
+
+export function validateActivityRequest(payload: ActivityRequest): Required<ActivityRequest> {
+  const date = normalizeDate(requireField(payload, "date"));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("Invalid date format. Use YYYY-MM-DD");
+  }
+  const name = String(requireField(payload, "name")).trim();
+  if (!name) {
+    throw new Error("Missing payload field: name");
+  }
+  const caloriesBurned = Number(payload.calories_burned);
+  if (!Number.isFinite(caloriesBurned) || caloriesBurned < 0) {
+    throw new Error("calories_burned must be a non-negative number");
+  }
+  const duration = Number(payload.duration_minutes ?? 0);
+  if (!Number.isFinite(duration) || duration < 0) {
+    throw new Error("duration_minutes must be a non-negative number");
+  }
+  return {
+    date,
+    name,
+    duration_minutes: numberOrZero(duration),
+    calories_burned: numberOrZero(caloriesBurned),
+    source: String(payload.source || "manual")
+  };
+}
+
+/** Validates a webhook registration; `allowPrivateHosts` lets local development point webhooks at this machine. */
+export function validateWebhookRequest(payload: WebhookRequest, allowPrivateHosts = false): Required<WebhookRequest> {
+  const url = String(requireField(payload, "url")).trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Invalid url. Use an absolute http or https URL.");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Invalid url. Use an absolute http or https URL.");
+  }
+  if (!allowPrivateHosts && isPrivateHost(parsed.hostname)) {
+    throw new Error("Invalid url. Webhooks cannot target localhost or private, loopback or link-local addresses.");
+  }
+  const events = payload.events ?? WEBHOOK_EVENT_TYPES;
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new Error("events must be a non-empty array");
+  }
+  for (const event of events) {
+    if (!WEBHOOK_EVENT_TYPES.includes(event)) {
+      throw new Error(`Invalid event: ${event}. Use ${WEBHOOK_EVENT_TYPES.join(", ")}.`);
+    }
+  }
+  return { url: parsed.toString(), events: Array.from(new Set(events)) };
+}
+
+export function validateWeightRequest(payload: WeightRequest): Required<WeightRequest> {
+  const date = normalizeDate(requireField(payload, "date"));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("Invalid date format. Use YYYY-MM-DD");
+  }
+  const weight = Number(payload.weight);
+  if (!Number.isFinite(weight) || weight <= 0) {
+    throw new Error("weight must be a positive number");
+  }
+  const unit = String(payload.unit || "kg").toLowerCase().trim();
+  if (unit !== "kg" && unit !== "lb") {
+    throw new Error("Invalid unit. Use kg or lb.");
+  }
+  return { date, weight: numberOrZero(weight), unit };
+}
+
+/**
+ * Validates a settings update against the user's `current` settings. Changing `meal_types`
+ * re-checks the saved `logging_rule`, so it never requires a meal type that no longer exists.
+ */
+export function validateSettingsRequest(payload: SettingsRequest, current: SettingsRequest = {}): SettingsRequest {
+  const settings: SettingsRequest = {};
+  if (typeof payload?.timezone !== "undefined") {
+    settings.timezone = assertTimeZone(String(payload.timezone).trim());
+  }
+  if (typeof payload?.count_burned_calories !== "undefined") {
+    settings.count_burned_calories = payload.count_burned_calories === true;
+  }
+  if (typeof payload?.meal_types !== "undefined") {
+    settings.meal_types = validateMealTypes(payload.meal_types);
+  }
+  if (typeof payload?.review_threshold !== "undefined") {
+    settings.review_threshold = validateReviewThreshold(payload.review_threshold);
+  }
+  const loggingRule = payload?.logging_rule ?? (settings.meal_types ? current.logging_rule : undefined);
+  if (typeof loggingRule !== "undefined") {
+    try {
+      settings.logging_rule = validateLoggingRule(
+        loggingRule,
+        DEFAULT_LOGGING_RULE,
+        settings.meal_types || current.meal_types || DEFAULT_MEAL_TYPES
+      );
+    } catch (err) {
+      throw new Error(`logging_rule: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return settings;
+}
+
+/** Normalises a logging rule; omitted fields fall back to `fallback` so the stored rule is always complete. */
+export function validateLoggingRule(
+  payload: Partial<LoggingRule>,
+  fallback: LoggingRule = DEFAULT_LOGGING_RULE,
+  mealTypes: MealTypeSetting[] = DEFAULT_MEAL_TYPES
+): LoggingRule {
+  const requireMeals = payload?.require_meals ?? fallback.require_meals;
+  if (!Array.isArray(requireMeals)) {
+    throw new Error("require_meals must be a list of meal types");
+  }
+  const minCalories = payload?.min_calories ?? fallback.min_calories;
+  if (!Number.isFinite(Number(minCalories)) || Number(minCalories) < 0) {
+    throw new Error("min_calories must be zero or more");
+  }
+  return {
+    require_meals: Array.from(new Set(requireMeals.map((meal) => normalizeMealType(meal, mealTypes)))),
+    min_calories: numberOrZero(minCalories)
+  };
+}
+
+export function validateGoalRequest(payload: GoalRequest): GoalRequest {
+  const effectiveFrom = normalizeDate(requireField(payload, "effective_from"));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+    throw new Error("Invalid effective_from. Use YYYY-MM-DD");
+  }
+
+  const weekdays: Partial<Record<Weekday, GoalTargets>> = {};
+  for (const [key, targets] of Object.entries(payload.weekdays || {})) {
+    const weekday = key.toLowerCase().trim() as Weekday;
+    if (!WEEKDAYS.includes(weekday)) {
+      throw new Error(`Invalid weekday: ${key}. Use monday through sunday.`);
+    }
+    weekdays[weekday] = validateGoalTargets_(targets);
+  }
+
+  return {
+    ...validateGoalTargets_(payload),
+    effective_from: effectiveFrom,
+    weekdays
+  };
+}
+
+/**
+ * Picks the goal in force on `date`: the latest goal whose `effective_from` is on
+ * or before the date, with that goal's weekday override applied if it has one.
+ */
+export function resolveGoal(goals: GoalRequest[], date: string): GoalTargets | null {
+  let active: GoalRequest | null = null;
+  for (const goal of goals) {
+    if (goal.effective_from <= date && (!active || goal.effective_from > active.effective_from)) {
+      active = goal;
+    }
+  }
+  if (!active) {
+    return null;
+  }
+
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  const override = active.weekdays?.[weekday];
+  const targets = override || active;
+  const resolved: GoalTargets = { calories: targets.calories };
+  for (const field of MACRO_FIELDS) {
+    if (typeof targets[field] === "number") {
+      resolved[field] = targets[field];
+    }
+  }
+  return resolved;
+}
+
+export function remainingBudget(goal: GoalTargets | null, totals: DailyTotals): GoalTargets | null {
+  if (!goal) {
+    return null;
+  }
+  const consumed = fromDailyTotals(totals);
+  const remaining: GoalTargets = { calories: numberOrZero(goal.calories - consumed.calories) };
+  for (const field of MACRO_FIELDS) {
+    const target = goal[field];
+    if (typeof target === "number") {
+      remaining[field] = numberOrZero(target - consumed[field]);
+    }
+  }
+  return remaining;
+}
+
+/** A day's calorie intake, the calories burned in activities and the difference between them. */
+export function energyBalance(intake: number, burned: number) {
+  return { intake: numberOrZero(intake), burned: numberOrZero(burned), net: numberOrZero(intake - burned) };
+}
+
+export function goalStatus(goal: GoalTargets | null, totalCalories: number): "over" | "under" | null {
+  if (!goal) {
+    return null;
+  }
+  return totalCalories > goal.calories ? "over" : "under";
+}
+
+function parseServings_(value: unknown): number {
+  if (typeof value === "undefined" || value === null || value === "") {
+    return 1;
+  }
+  const servings = Number(value);
+  if (!Number.isFinite(servings) || servings <= 0) {
+    throw new Error("servings must be a positive number");
+  }
+  return servings;
+}
+
+function resolveFoodItem_(item: LogItem, refs: LogReferences): LogItem {
+  const foodId = String(item.food_id);
+  const food = refs.foods?.[foodId];
+  if (!food) {
+    throw new Error(`Unknown food_id: ${foodId}`);
+  }
+  const servings = parseServings_(item.servings);
+  const defaultQuantity = servings === 1 ? food.quantity : `${servings} x ${food.quantity || "serving"}`;
+  return {
+    name: item.name ? String(item.name) : food.name,
+    quantity: item.quantity ? String(item.quantity) : defaultQuantity,
+    ...scaleNutrients(nutrientsOf(food), servings),
+    confidence: typeof item.confidence === "undefined" ? 1 : numberOrZero(item.confidence),
+    food_id: foodId,
+    servings
+  };
+}
+
+function resolveRecipeItem_(item: LogItem, refs: LogReferences): LogItem[] {
+  const recipeId = String(item.recipe_id);
+  const recipe = refs.recipes?.[recipeId];
+  if (!recipe) {
+    throw new Error(`Unknown recipe_id: ${recipeId}`);
+  }
+  const servings = parseServings_(item.servings);
+  const confidence = typeof item.confidence === "undefined" ? 1 : numberOrZero(item.confidence);
+
+  if (item.expand) {
+    const factor = servings / recipe.servings;
+    return recipe.ingredients.map((ingredient) => ({
+      name: `${ingredient.name} (${recipe.name})`,
+      quantity: ingredient.quantity ? `${numberOrZero(factor)} x ${ingredient.quantity}` : "",
+      ...scaleNutrients(nutrientsOf(ingredient), factor),
+      confidence,
+      recipe_id: recipeId,
+      servings
+    }));
+  }
+
+  return [
+    {
+      name: item.name ? String(item.name) : recipe.name,
+      quantity: item.quantity ? String(item.quantity) : `${servings} serving${servings === 1 ? "" : "s"}`,
+      ...recipeServingNutrients(recipe, servings),
+      confidence,
+      recipe_id: recipeId,
+      servings
+    }
+  ];
+}
+
+function validateGoalTargets_(targets: GoalTargets): GoalTargets {
+  const calories = Number(targets?.calories);
+  if (!Number.isFinite(calories) || calories <= 0) {
+    throw new Error("Goal calories must be a positive number");
+  }
+  const validated: GoalTargets = { calories: numberOrZero(calories) };
+  for (const field of MACRO_FIELDS) {
+    if (typeof targets[field] !== "undefined" && targets[field] !== null) {
+      const value = Number(targets[field]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`Goal ${field} must be a non-negative number`);
+      }
+      validated[field] = numberOrZero(value);
+    }
+  }
+  return validated;
+}
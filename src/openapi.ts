@@ -0,0 +1,149 @@
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from "./idempotency.js";
+import type { JsonSchema, RouteSchema } from "./schemas.js";
+
+export interface DocumentedRoute {
+  method: string;
+  url: string;
+  schema: RouteSchema;
+}
+
+export interface OpenApiOptions {
+  serverUrl: string;
+  sharedSchemas: JsonSchema[];
+}
+
+/**
+ * Builds the OpenAPI document from the schemas the routes are validated with, so the
+ * published contract cannot drift from what the server accepts.
+ */
+export function buildOpenApiDocument(routes: DocumentedRoute[], options: OpenApiOptions) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    if (route.schema.hidden) {
+      continue;
+    }
+    paths[route.url] = { ...paths[route.url], [route.method.toLowerCase()]: operation_(route.schema, route.method) };
+  }
+
+  const schemas: Record<string, unknown> = {};
+  for (const { $id, ...schema } of options.sharedSchemas) {
+    schemas[String($id)] = toComponentRefs_(schema);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "Calorie Logger Cloud Run API", version: "1.0.0" },
+    servers: [{ url: options.serverUrl }],
+    security: [{ ApiKeyAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { ApiKeyAuth: { type: "apiKey", in: "header", name: "X-Auth-Token" } },
+      schemas
+    }
+  };
+}
+
+function operation_(schema: RouteSchema, method: string) {
+  const query = schema.querystring as JsonSchema | undefined;
+  const required = new Set((query?.required as string[] | undefined) || []);
+  const queryParameters = Object.entries((query?.properties as Record<string, JsonSchema> | undefined) || {}).map(
+    ([name, property]) => {
+      const { description, ...rest } = property;
+      return {
+        in: "query",
+        name,
+        required: required.has(name),
+        ...(description ? { description } : {}),
+        schema: toComponentRefs_(rest)
+      };
+    }
+  );
+  const idempotent = method === "POST" && !schema.public;
+  const parameters = idempotent ? [...queryParameters, IDEMPOTENCY_PARAMETER] : queryParameters;
+
+  const body = schema.body as JsonSchema | undefined;
+  const bodyContent = body
+    ? body.content
+      ? Object.fromEntries(
+          Object.entries(body.content as Record<string, { schema: JsonSchema }>).map(([type, value]) => [
+            type,
+            { schema: toComponentRefs_(value.schema) }
+          ])
+        )
+      : { "application/json": { schema: toComponentRefs_(body) } }
+    : null;
+
+  const successTypes = schema.successTypes || ["application/json"];
+  return {
+    operationId: schema.operationId,
+    summary: schema.summary,
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.public ? { security: [] } : {}),
+    ...(parameters.length ? { parameters } : {}),
+    ...(bodyContent ? { requestBody: { required: true, content: bodyContent } } : {}),
+    responses: {
+      "200": {
+        description: "Success",
+        ...(schema.success
+          ? {
+              content: Object.fromEntries(successTypes.map((type) => [type, { schema: toComponentRefs_(schema.success) }]))
+            }
+          : {})
+      },
+      "400": { description: "Invalid request", content: { "application/json": { schema: ERROR_SCHEMA } } },
+      ...(schema.public ? {} : { "401": { description: "Missing or unknown X-Auth-Token" } }),
+      ...(idempotent
+        ? {
+            "409": {
+              description: "Idempotency-Key reused for a different request, or its first request is still running",
+              content: { "application/json": { schema: ERROR_SCHEMA } }
+            }
+          }
+        : {})
+    }
+  };
+}
+
+const IDEMPOTENCY_PARAMETER = {
+  in: "header",
+  name: "Idempotency-Key",
+  required: false,
+  description:
+    "Unique value per logical change, e.g. a UUID. A retry with the same key and body returns the first response instead of applying the change again.",
+  schema: { type: "string", minLength: 1, maxLength: MAX_IDEMPOTENCY_KEY_LENGTH }
+};
+
+const ERROR_SCHEMA = {
+  type: "object",
+  properties: {
+    ok: { type: "boolean" },
+    error: { type: "string" },
+    details: {
+      type: "array",
+      description: "One item per invalid field when the request failed schema validation",
+      items: {
+        type: "object",
+        properties: { in: { type: "string", enum: ["body", "query"] }, field: { type: "string" }, message: { type: "string" } },
+        required: ["in", "field", "message"]
+      }
+    }
+  },
+  required: ["ok", "error"]
+};
+
+/** Rewrites Fastify shared-schema references (`Entry#`) into OpenAPI component references. */
+function toComponentRefs_(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toComponentRefs_);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) =>
+        key === "$ref" && typeof item === "string" && item.endsWith("#")
+          ? [key, `#/components/schemas/${item.slice(0, -1)}`]
+          : [key, toComponentRefs_(item)]
+      )
+    );
+  }
+  return value;
+}
@@ -0,0 +1,66 @@
+import { validateRange } from "./dates.js";
+import { addNutrients, fromDailyTotals, isZeroNutrients, nutrientsOf, toDailyTotals } from "./lib.js";
+import type { StorageAdapter } from "./storage.js";
+import type { DailyTotals, Nutrients } from "./types.js";
+
+export interface TotalsMismatch {
+  date: string;
+  stored: DailyTotals;
+  computed: DailyTotals;
+  difference: DailyTotals;
+}
+
+export interface ReconcileReport {
+  start: string;
+  end: string;
+  checked_dates: number;
+  mismatches: TotalsMismatch[];
+  repaired: boolean;
+}
+
+/**
+ * Recomputes daily totals from entries for a date range and compares them with
+ * the stored totals. With `repair`, every mismatched total is overwritten with
+ * the recomputed value.
+ */
+export async function reconcileTotals(
+  storage: StorageAdapter,
+  userId: string,
+  start: string,
+  end: string,
+  options: { repair?: boolean } = {}
+): Promise<ReconcileReport> {
+  validateRange(start, end);
+
+  const computed = new Map<string, Nutrients>();
+  for await (const entry of storage.streamEntriesRange(userId, start, end)) {
+    computed.set(entry.date, addNutrients(computed.get(entry.date) || nutrientsOf({}), nutrientsOf(entry)));
+  }
+  const stored = new Map(
+    (await storage.getTotalsRange(userId, start, end)).map((row) => [row.date, fromDailyTotals(row)])
+  );
+
+  const dates = Array.from(new Set([...computed.keys(), ...stored.keys()])).sort();
+  const mismatches: TotalsMismatch[] = [];
+  for (const date of dates) {
+    const expected = computed.get(date) || nutrientsOf({});
+    const actual = stored.get(date) || nutrientsOf({});
+    const difference = addNutrients(actual, expected, -1);
+    if (!isZeroNutrients(difference)) {
+      mismatches.push({
+        date,
+        stored: toDailyTotals(actual),
+        computed: toDailyTotals(expected),
+        difference: toDailyTotals(difference)
+      });
+    }
+  }
+
+  if (options.repair) {
+    for (const mismatch of mismatches) {
+      await storage.setTotal(userId, mismatch.date, fromDailyTotals(mismatch.computed));
+    }
+  }
+
+  return { start, end, checked_dates: dates.length, mismatches, repaired: Boolean(options.repair) };
+}
@@ -0,0 +1,104 @@
+import { isoWeek, startOfWeek } from "./dates.js";
+import { addNutrients, fromDailyTotals, nutrientsOf, numberOrZero, toDailyTotals } from "./lib.js";
+import type { DailyTotalRow } from "./storage.js";
+import type { DailyTotals, Nutrients, Weekday } from "./types.js";
+
+export type RollupPeriod = "week" | "month";
+
+export interface PeriodTotals extends DailyTotals {
+  /** `YYYY-MM` for months; the date the week starts on for weeks, which may fall before the range. */
+  period: string;
+  /** ISO 8601 week label, only for weeks starting on Monday. */
+  iso_week?: string;
+  /** First and last date of the period inside the requested range. */
+  start: string;
+  end: string;
+  days: number;
+  logged_days: number;
+  /** Daily averages over logged days; zero when nothing was logged. */
+  average: Nutrients;
+}
+
+export interface DayExtreme {
+  date: string;
+  calories: number;
+}
+
+/** Calorie statistics over the logged days of a range; the averages are null when nothing was logged. */
+export interface SummaryStats {
+  days: number;
+  logged_days: number;
+  empty_days: number;
+  mean: number | null;
+  median: number | null;
+  min: DayExtreme | null;
+  max: DayExtreme | null;
+  std_dev: number | null;
+}
+
+/**
+ * Sums daily totals into weeks or months. `dates` is every date in the range, so
+ * periods are clipped to it and days without a stored total count as empty. A day
+ * is logged when it has calories, matching the intake average used by `/trends`.
+ */
+export function groupTotals(
+  rows: DailyTotalRow[],
+  dates: string[],
+  period: RollupPeriod,
+  weekStart: Weekday = "monday"
+): PeriodTotals[] {
+  const byDate = new Map(rows.map((row) => [row.date, fromDailyTotals(row)]));
+  const groups = new Map<string, { start: string; end: string; days: number; logged_days: number; sum: Nutrients }>();
+  for (const date of dates) {
+    const key = period === "month" ? date.slice(0, 7) : startOfWeek(date, weekStart);
+    const group = groups.get(key) || { start: date, end: date, days: 0, logged_days: 0, sum: nutrientsOf({}) };
+    const day = byDate.get(date) || nutrientsOf({});
+    group.end = date;
+    group.days += 1;
+    group.logged_days += day.calories > 0 ? 1 : 0;
+    group.sum = addNutrients(group.sum, day);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups, ([key, group]) => ({
+    period: key,
+    ...(period === "week" && weekStart === "monday" ? { iso_week: isoWeek(key) } : {}),
+    start: group.start,
+    end: group.end,
+    days: group.days,
+    logged_days: group.logged_days,
+    ...toDailyTotals(group.sum),
+    average: nutrientsOf(
+      Object.fromEntries(
+        Object.entries(group.sum).map(([field, value]) => [field, group.logged_days ? value / group.logged_days : 0])
+      )
+    )
+  }));
+}
+
+export function summaryStats(rows: DailyTotalRow[], dates: string[]): SummaryStats {
+  const calories = new Map(rows.map((row) => [row.date, row.total_calories]));
+  const logged = dates
+    .map((date) => ({ date, calories: calories.get(date) || 0 }))
+    .filter((day) => day.calories > 0);
+  const stats = { days: dates.length, logged_days: logged.length, empty_days: dates.length - logged.length };
+  if (logged.length === 0) {
+    return { ...stats, mean: null, median: null, min: null, max: null, std_dev: null };
+  }
+
+  const values = logged.map((day) => day.calories).sort((a, b) => a - b);
+  const middle = Math.floor(values.length / 2);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  // Ties keep the earliest date, since `logged` is in date order.
+  const min = logged.reduce((best, day) => (day.calories < best.calories ? day : best));
+  const max = logged.reduce((best, day) => (day.calories > best.calories ? day : best));
+  return {
+    ...stats,
+    mean: numberOrZero(mean),
+    median: numberOrZero(values.length % 2 ? values[middle] : (values[middle - 1] + values[middle]) / 2),
+    min,
+    max,
+    std_dev: numberOrZero(Math.sqrt(variance))
+  };
+}
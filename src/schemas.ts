@@ -0,0 +1,1020 @@
+import type { FastifySchema } from "fastify";
+import { WEBHOOK_EVENT_TYPES } from "./webhooks.js";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Fastify route schema plus the metadata the OpenAPI document needs. `body` and
+ * `querystring` are validated by Fastify; everything else only feeds `/openapi.json`.
+ */
+export interface RouteSchema extends FastifySchema {
+  operationId: string;
+  summary: string;
+  description?: string;
+  /** Route works without an auth token. */
+  public?: boolean;
+  /** Left out of the OpenAPI document, e.g. admin tools the GPT should not call. */
+  hidden?: boolean;
+  /**
+   * Documented 200 response body. Deliberately not a Fastify `response` schema, which
+   * would make serialisation drop any field the schema does not list.
+   */
+  success?: JsonSchema;
+  /** Media types of the 200 response when it is not JSON. */
+  successTypes?: string[];
+}
+
+const DATE = { type: "string", format: "date", examples: ["2026-02-03"] };
+const NUMBER = { type: "number" };
+const NON_NEGATIVE = { type: "number", minimum: 0 };
+const TIMESTAMP = { type: "string", format: "date-time" };
+const TZ = { type: "string", description: "IANA timezone overriding the user's setting (also accepted as X-Timezone header)" };
+const GOAL_OR_NULL = { anyOf: [{ $ref: "GoalTargets#" }, { type: "null" }] };
+
+function ref(id: string) {
+  return { $ref: `${id}#` };
+}
+
+function object(properties: Record<string, unknown>, required: string[] = [], extra: JsonSchema = {}): JsonSchema {
+  return { type: "object", properties, ...(required.length ? { required } : {}), ...extra };
+}
+
+function nullable(schema: JsonSchema) {
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+const MACROS = {
+  protein: { ...NON_NEGATIVE, description: "Grams of protein" },
+  carbs: { ...NON_NEGATIVE, description: "Grams of carbs" },
+  fat: { ...NON_NEGATIVE, description: "Grams of fat" },
+  fiber: { ...NON_NEGATIVE, description: "Grams of fiber" }
+};
+
+const DAILY_TOTALS = {
+  total_calories: NUMBER,
+  total_protein: NUMBER,
+  total_carbs: NUMBER,
+  total_fat: NUMBER,
+  total_fiber: NUMBER
+};
+
+const BUDGET = {
+  goal: { ...GOAL_OR_NULL, description: "Goal in force on the date, or null when no goal is set" },
+  remaining: { ...GOAL_OR_NULL, description: "Goal minus consumed totals; negative values mean over budget" }
+};
+
+const ENERGY = {
+  intake: { ...NUMBER, description: "Calories eaten; the same as total_calories" },
+  burned: { ...NUMBER, description: "Calories burned in logged activities" },
+  net: { ...NUMBER, description: "intake minus burned" }
+};
+
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const MEAL_TYPE = {
+  type: "string",
+  description: "breakfast, lunch, dinner or snacks, or one of the user's meal_types from /settings; aliases such as supper are accepted"
+};
+
+/** Shared schemas, registered with `app.addSchema` and emitted as OpenAPI components. */
+export const sharedSchemas: JsonSchema[] = [
+  { $id: "Macros", ...object(MACROS) },
+  {
+    $id: "GoalTargets",
+    ...object({ calories: { type: "number", exclusiveMinimum: 0 }, ...MACROS }, ["calories"])
+  },
+  {
+    $id: "GoalRequest",
+    ...object(
+      {
+        effective_from: DATE,
+        calories: { type: "number", exclusiveMinimum: 0 },
+        ...MACROS,
+        weekdays: {
+          type: "object",
+          description: "Optional per-weekday overrides keyed by monday..sunday",
+          additionalProperties: ref("GoalTargets")
+        }
+      },
+      ["effective_from", "calories"]
+    )
+  },
+  {
+    $id: "Goal",
+    allOf: [ref("GoalRequest"), object({ updated_at: TIMESTAMP })]
+  },
+  {
+    $id: "FoodFields",
+    ...object({
+      name: { type: "string", minLength: 1 },
+      quantity: { type: "string", description: "Default quantity one serving represents" },
+      calories: NON_NEGATIVE,
+      ...MACROS
+    })
+  },
+  { $id: "FoodRequest", type: "object", allOf: [ref("FoodFields")], required: ["name", "calories"] },
+  {
+    $id: "SavedFood",
+    allOf: [ref("FoodRequest"), object({ food_id: { type: "string" }, created_at: TIMESTAMP, updated_at: TIMESTAMP }, ["food_id"])]
+  },
+  { $id: "FoodResponse", ...object({ ok: { type: "boolean" }, food: ref("SavedFood") }, ["ok", "food"]) },
+  {
+    $id: "RecipeFields",
+    ...object({
+      name: { type: "string", minLength: 1 },
+      servings: { type: "number", exclusiveMinimum: 0, description: "Number of servings the recipe yields" },
+      ingredients: { type: "array", minItems: 1, maxItems: 200, items: ref("FoodRequest") }
+    })
+  },
+  { $id: "RecipeRequest", type: "object", allOf: [ref("RecipeFields")], required: ["name", "servings", "ingredients"] },
+  {
+    $id: "Recipe",
+    allOf: [
+      ref("RecipeRequest"),
+      object(
+        {
+          recipe_id: { type: "string" },
+          per_serving: object({ calories: NUMBER, ...MACROS }),
+          created_at: TIMESTAMP,
+          updated_at: TIMESTAMP
+        },
+        ["recipe_id"]
+      )
+    ]
+  },
+  { $id: "RecipeResponse", ...object({ ok: { type: "boolean" }, recipe: ref("Recipe") }, ["ok", "recipe"]) },
+  {
+    $id: "Entry",
+    ...object(
+      {
+        entry_id: { type: "string" },
+        timestamp: TIMESTAMP,
+        date: DATE,
+        meal_type: { type: "string" },
+        item: { type: "string" },
+        quantity: { type: "string" },
+        calories: NUMBER,
+        ...MACROS,
+        confidence: NUMBER,
+        source: { type: "string" },
+        raw_text: { type: "string" },
+        food_id: { type: "string", description: "Saved food the entry was logged from" },
+        recipe_id: { type: "string", description: "Recipe the entry was logged from" },
+        reviewed_at: {
+          ...nullable(TIMESTAMP),
+          description: "When the estimate was confirmed or corrected in the review queue; null once its values were edited since"
+        }
+      },
+      ["entry_id", "timestamp", "date", "meal_type", "item", "calories"]
+    )
+  },
+  {
+    $id: "Revision",
+    ...object(
+      {
+        revision_id: { type: "string" },
+        entry_id: { type: "string" },
+        action: { type: "string", enum: ["create", "update", "delete"] },
+        before: nullable(ref("Entry")),
+        after: nullable(ref("Entry")),
+        timestamp: TIMESTAMP,
+        source: { type: "string", description: "Route that made the change" },
+        undone_at: TIMESTAMP
+      },
+      ["revision_id", "entry_id", "action", "before", "after", "timestamp", "source"]
+    )
+  },
+  {
+    $id: "LogItem",
+    description: "Either name and calories, or a food_id or recipe_id to log by reference",
+    ...object({
+      name: { type: "string" },
+      quantity: { type: "string" },
+      calories: NON_NEGATIVE,
+      ...MACROS,
+      confidence: { type: "number", minimum: 0, maximum: 1, description: "How sure the estimate is; 1 when omitted" },
+      food_id: { type: "string", description: "Saved food to log instead of estimating; name and calories may be omitted" },
+      recipe_id: { type: "string", description: "Recipe to log instead of estimating; name and calories may be omitted" },
+      servings: { type: "number", exclusiveMinimum: 0, description: "Servings of the saved food or recipe (default 1)" },
+      expand: { type: "boolean", description: "Log one entry per recipe ingredient instead of a single recipe entry" }
+    })
+  },
+  {
+    $id: "LogRequest",
+    ...object(
+      {
+        date: { ...DATE, description: "Defaults to today in the user's timezone" },
+        meal_type: MEAL_TYPE,
+        source: { type: "string" },
+        raw_text: { type: "string" },
+        items: { type: "array", minItems: 1, maxItems: 100, items: ref("LogItem") }
+      },
+      ["meal_type", "items"]
+    )
+  },
+  {
+    $id: "EntryUpdates",
+    ...object({
+      date: DATE,
+      meal_type: MEAL_TYPE,
+      item: { type: "string" },
+      quantity: { type: "string" },
+      calories: NON_NEGATIVE,
+      ...MACROS,
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      source: { type: "string" },
+      raw_text: { type: "string" }
+    })
+  },
+  {
+    $id: "UpdateRequest",
+    ...object({ entry_id: { type: "string", minLength: 1 }, updates: ref("EntryUpdates") }, ["entry_id", "updates"])
+  },
+  { $id: "EntryIdRequest", ...object({ entry_id: { type: "string", minLength: 1 } }, ["entry_id"]) },
+  {
+    $id: "CopyRequest",
+    ...object(
+      {
+        from_date: { ...DATE, description: "Date to copy entries from" },
+        to_date: { ...DATE, description: "Date to copy entries to; defaults to today in the user's timezone" },
+        meal_type: { ...MEAL_TYPE, description: "Only copy this meal; the whole day when omitted" },
+        to_meal_type: { ...MEAL_TYPE, description: "Meal to log the copies under; each copy keeps its meal when omitted" }
+      },
+      ["from_date"]
+    )
+  },
+  {
+    $id: "BatchOperation",
+    description: "update changes the fields in updates, move sets date and/or meal_type, delete removes the entry",
+    ...object(
+      {
+        op: { type: "string", enum: ["update", "move", "delete"] },
+        entry_id: { type: "string", minLength: 1 },
+        updates: ref("EntryUpdates"),
+        date: { ...DATE, description: "Target date for move" },
+        meal_type: { ...MEAL_TYPE, description: "Target meal for move" }
+      },
+      ["op", "entry_id"]
+    )
+  },
+  {
+    $id: "DailySummary",
+    ...object(
+      {
+        date: DATE,
+        ...DAILY_TOTALS,
+        ...ENERGY,
+        ...BUDGET,
+        unconfirmed_calories: {
+          ...NUMBER,
+          description: "Calories from low-confidence entries not yet confirmed; present with include_unconfirmed=true"
+        },
+        status: {
+          ...nullable({ type: "string", enum: ["over", "under"] }),
+          description: "Present in range summaries; null when no goal applied on the date"
+        }
+      },
+      ["date", "total_calories"]
+    )
+  },
+  {
+    $id: "PeriodTotals",
+    ...object(
+      {
+        period: { type: "string", description: "YYYY-MM for months; the date the week starts on for weeks" },
+        iso_week: { type: "string", examples: ["2026-W06"], description: "Only for weeks starting on Monday" },
+        start: { ...DATE, description: "First date of the period inside the range" },
+        end: { ...DATE, description: "Last date of the period inside the range" },
+        days: { type: "integer" },
+        logged_days: { type: "integer" },
+        ...DAILY_TOTALS,
+        average: { allOf: [ref("Macros"), object({ calories: NUMBER })], description: "Daily averages over logged days" }
+      },
+      ["period", "start", "end", "days", "logged_days", "total_calories", "average"]
+    )
+  },
+  {
+    $id: "SummaryStats",
+    description: "Calorie statistics over logged days; mean, median, min, max and std_dev are null when nothing was logged",
+    ...object(
+      {
+        days: { type: "integer" },
+        logged_days: { type: "integer" },
+        empty_days: { type: "integer" },
+        mean: nullable(NUMBER),
+        median: nullable(NUMBER),
+        min: nullable(object({ date: DATE, calories: NUMBER }, ["date", "calories"])),
+        max: nullable(object({ date: DATE, calories: NUMBER }, ["date", "calories"])),
+        std_dev: nullable(NUMBER)
+      },
+      ["days", "logged_days", "empty_days", "mean", "median", "min", "max", "std_dev"]
+    )
+  },
+  {
+    $id: "ModifyResponse",
+    ...object({ ok: { type: "boolean" }, entry_id: { type: "string" }, date: DATE, ...DAILY_TOTALS, ...BUDGET }, [
+      "ok",
+      "entry_id",
+      "date",
+      "total_calories"
+    ])
+  },
+  {
+    $id: "WeightRequest",
+    ...object(
+      { date: DATE, weight: { type: "number", exclusiveMinimum: 0 }, unit: { type: "string", enum: ["kg", "lb"] } },
+      ["date", "weight"]
+    )
+  },
+  {
+    $id: "WeightEntry",
+    allOf: [ref("WeightRequest"), object({ weight_id: { type: "string" }, timestamp: TIMESTAMP }, ["weight_id", "unit", "timestamp"])]
+  },
+  {
+    $id: "ActivityFields",
+    ...object({
+      date: { ...DATE, description: "Defaults to today" },
+      name: { type: "string", minLength: 1, examples: ["Running"] },
+      duration_minutes: NON_NEGATIVE,
+      calories_burned: NON_NEGATIVE,
+      source: { type: "string", description: "Where the activity came from, e.g. a fitness tracker; defaults to manual" }
+    })
+  },
+  { $id: "ActivityRequest", type: "object", allOf: [ref("ActivityFields")], required: ["name", "calories_burned"] },
+  {
+    $id: "Activity",
+    allOf: [
+      ref("ActivityRequest"),
+      object({ activity_id: { type: "string" }, timestamp: TIMESTAMP, updated_at: TIMESTAMP }, [
+        "activity_id",
+        "date",
+        "duration_minutes",
+        "source",
+        "timestamp"
+      ])
+    ]
+  },
+  { $id: "ActivityResponse", ...object({ ok: { type: "boolean" }, activity: ref("Activity") }, ["ok", "activity"]) },
+  {
+    $id: "LoggingRule",
+    description: "When a day counts as logged for streaks and adherence",
+    ...object({
+      require_meals: { type: "array", items: MEAL_TYPE, description: "Meal types that need at least one entry" },
+      min_calories: { ...NON_NEGATIVE, description: "Calories the day needs in total" }
+    })
+  },
+  {
+    $id: "MealTypeSetting",
+    ...object(
+      {
+        name: { type: "string", minLength: 1, examples: ["pre-workout"] },
+        aliases: { type: "array", items: { type: "string" }, default: [], description: "Other names accepted for this meal" }
+      },
+      ["name"]
+    )
+  },
+  {
+    $id: "SettingsRequest",
+    ...object({
+      timezone: { type: "string", description: 'IANA timezone used for "today"', examples: ["Europe/London"] },
+      logging_rule: ref("LoggingRule"),
+      count_burned_calories: {
+        type: "boolean",
+        description: "Add calories burned in activities to the remaining budget; off by default"
+      },
+      meal_types: {
+        type: "array",
+        minItems: 1,
+        maxItems: 20,
+        items: ref("MealTypeSetting"),
+        description: "Meal types in display order; replaces the default breakfast, lunch, dinner and snacks"
+      },
+      review_threshold: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Entries with a lower confidence wait in the review queue; 0.7 by default"
+      }
+    })
+  }
+];
+
+const RANGE_QUERY = { start: DATE, end: DATE };
+const PAGE_QUERY = {
+  limit: { type: "integer", minimum: 1, maximum: 1000, default: 100 },
+  offset: { type: "integer", minimum: 0, default: 0, description: "Entries to skip; prefer cursor" },
+  cursor: { type: "string", description: "next_cursor from the previous response, to fetch the following page" }
+};
+const NEXT_CURSOR = { ...nullable({ type: "string" }), description: "Pass as cursor to fetch the next page; null on the last page" };
+const INCLUDE_EMPTY = { type: "boolean", default: false, description: "Include dates with nothing logged as zero rows" };
+const INCLUDE_UNCONFIRMED = {
+  type: "boolean",
+  default: false,
+  description: "Report unconfirmed_calories: calories from low-confidence entries not yet confirmed"
+};
+
+const SUMMARY_RANGE = object({ start: DATE, end: DATE, totals: { type: "array", items: ref("DailySummary") } }, [
+  "start",
+  "end",
+  "totals"
+]);
+
+const IMPORT_OPTIONS = {
+  format: { type: "string", enum: ["auto", "native", "myfitnesspal"] },
+  dry_run: { type: "boolean", default: false }
+};
+
+function idBody(field: string) {
+  return object({ [field]: { type: "string", minLength: 1 } }, [field]);
+}
+
+function okWith(field: string) {
+  return object({ ok: { type: "boolean" }, [field]: { type: "string" } }, ["ok", field]);
+}
+
+const ROUTE_SCHEMAS = {
+  health: {
+    operationId: "health",
+    summary: "Health check",
+    public: true,
+    success: object({ ok: { type: "boolean" } })
+  },
+  openapi: {
+    operationId: "getOpenApiDocument",
+    summary: "This OpenAPI document",
+    public: true,
+    hidden: true
+  },
+  time: {
+    operationId: "getCurrentDateTime",
+    summary: "Get the current date and time in the user's timezone",
+    public: true,
+    querystring: object({ tz: TZ }),
+    success: object(
+      {
+        datetime: { ...TIMESTAMP, description: "Current instant in UTC" },
+        timezone: { type: "string", examples: ["Europe/London"] },
+        date: { ...DATE, description: 'Today\'s date in the user\'s timezone; use this as "today"' },
+        time: { type: "string", examples: ["21:45:00"] },
+        utc_offset: { type: "string", examples: ["+00:00"] }
+      },
+      ["datetime", "timezone", "date", "time", "utc_offset"]
+    )
+  },
+  summary: {
+    operationId: "getDailyTotal",
+    summary: "Get total calories for a date",
+    querystring: object({ date: DATE, include_unconfirmed: INCLUDE_UNCONFIRMED }, ["date"]),
+    success: ref("DailySummary")
+  },
+  summaryRange: {
+    operationId: "getSummaryRange",
+    summary: "Get daily totals for a date range",
+    querystring: object(
+      {
+        ...RANGE_QUERY,
+        include_empty: INCLUDE_EMPTY,
+        group: { type: "string", enum: ["meal_type", "week", "month"], description: "Group days by meal, week or month" },
+        week_start: { type: "string", enum: WEEKDAYS, default: "monday", description: "First day of the week for group=week" },
+        include_unconfirmed: { ...INCLUDE_UNCONFIRMED, description: `${INCLUDE_UNCONFIRMED.description}; daily rows only` }
+      },
+      ["start", "end"]
+    ),
+    success: {
+      anyOf: [
+        { ...SUMMARY_RANGE, properties: { ...(SUMMARY_RANGE.properties as JsonSchema), stats: ref("SummaryStats") } },
+        object(
+          {
+            start: DATE,
+            end: DATE,
+            group: { type: "string", enum: ["week", "month"] },
+            week_start: { type: "string" },
+            totals: { type: "array", items: ref("PeriodTotals") },
+            stats: ref("SummaryStats")
+          },
+          ["start", "end", "group", "totals", "stats"]
+        ),
+        object(
+          {
+            start: DATE,
+            end: DATE,
+            group: { type: "string" },
+            meal_types: { type: "array", items: { type: "string" }, description: "Meal types in display order" },
+            totals: {
+              type: "array",
+              items: object(
+                {
+                  date: DATE,
+                  totals: { type: "object", description: "Calories per meal type", additionalProperties: NUMBER },
+                  macros: {
+                    type: "object",
+                    description: "Macro totals in grams per meal type",
+                    additionalProperties: ref("Macros")
+                  }
+                },
+                ["date", "totals"]
+              )
+            },
+            stats: ref("SummaryStats")
+          },
+          ["start", "end", "totals"]
+        )
+      ]
+    }
+  },
+  summaryLast: {
+    operationId: "getSummaryLast",
+    summary: "Get daily totals for the last N days",
+    querystring: object({
+      days: { type: "integer", minimum: 1, maximum: 366, default: 7 },
+      include_empty: INCLUDE_EMPTY,
+      include_unconfirmed: INCLUDE_UNCONFIRMED,
+      tz: TZ
+    }),
+    success: SUMMARY_RANGE
+  },
+  list: {
+    operationId: "listDailyEntries",
+    summary: "List entries for a date",
+    querystring: object({ date: DATE, ...PAGE_QUERY }, ["date"]),
+    success: object({ date: DATE, entries: { type: "array", items: ref("Entry") }, next_cursor: NEXT_CURSOR }, [
+      "date",
+      "entries",
+      "next_cursor"
+    ])
+  },
+  entriesRange: {
+    operationId: "listEntriesRange",
+    summary: "List entries for a date range",
+    querystring: object({ ...RANGE_QUERY, ...PAGE_QUERY }, ["start", "end"]),
+    success: object(
+      { start: DATE, end: DATE, entries: { type: "array", items: ref("Entry") }, next_cursor: NEXT_CURSOR },
+      ["start", "end", "entries", "next_cursor"]
+    )
+  },
+  export: {
+    operationId: "exportData",
+    summary: "Stream entries or daily totals for a date range as CSV or NDJSON",
+    querystring: object(
+      {
+        ...RANGE_QUERY,
+        format: { type: "string", enum: ["csv", "ndjson"], default: "csv" },
+        dataset: { type: "string", enum: ["entries", "totals"], default: "entries" }
+      },
+      ["start", "end"]
+    ),
+    success: { type: "string" },
+    successTypes: ["text/csv", "application/x-ndjson"]
+  },
+  import: {
+    operationId: "importEntries",
+    summary: "Import entries from CSV (export layout or MyFitnessPal-style diary)",
+    description: "Send JSON, or a raw text/csv body with format and dry_run as query parameters.",
+    querystring: object(IMPORT_OPTIONS),
+    body: {
+      content: {
+        "application/json": { schema: object({ csv: { type: "string", minLength: 1 }, ...IMPORT_OPTIONS }, ["csv"]) },
+        "text/csv": { schema: { type: "string" } }
+      }
+    },
+    success: object(
+      {
+        ok: { type: "boolean" },
+        dry_run: { type: "boolean" },
+        format: { type: "string", enum: ["native", "myfitnesspal"] },
+        rows: { type: "integer" },
+        valid: { type: "integer" },
+        imported: { type: "integer" },
+        dates: { type: "array", items: DATE },
+        errors: {
+          type: "array",
+          items: object({ row: { type: "integer" }, error: { type: "string" } }, ["row", "error"])
+        }
+      },
+      ["ok", "dry_run", "rows", "valid", "imported", "errors"]
+    )
+  },
+  log: {
+    operationId: "logEntry",
+    summary: "Log a new entry",
+    querystring: object({ tz: TZ }),
+    body: ref("LogRequest"),
+    success: object({ ok: { type: "boolean" }, date: DATE, ...DAILY_TOTALS, ...BUDGET, entry_ids: { type: "array", items: { type: "string" } } }, [
+      "ok",
+      "date",
+      "total_calories",
+      "entry_ids"
+    ])
+  },
+  update: {
+    operationId: "updateEntry",
+    summary: "Update an entry",
+    body: ref("UpdateRequest"),
+    success: ref("ModifyResponse")
+  },
+  delete: {
+    operationId: "deleteEntry",
+    summary: "Delete an entry",
+    body: ref("EntryIdRequest"),
+    success: ref("ModifyResponse")
+  },
+  copy: {
+    operationId: "copyEntries",
+    summary: "Copy a meal or a whole day to another date",
+    querystring: object({ tz: TZ }),
+    body: ref("CopyRequest"),
+    success: object({ ok: { type: "boolean" }, date: DATE, ...DAILY_TOTALS, ...BUDGET, entry_ids: { type: "array", items: { type: "string" } } }, [
+      "ok",
+      "date",
+      "total_calories",
+      "entry_ids"
+    ])
+  },
+  batch: {
+    operationId: "batchEntries",
+    summary: "Update, move and delete many entries at once",
+    description:
+      "Operations are applied in order and all-or-nothing: if any operation is invalid or names an unknown entry, nothing is changed.",
+    body: object({ operations: { type: "array", minItems: 1, maxItems: 100, items: ref("BatchOperation") } }, ["operations"]),
+    success: object(
+      {
+        ok: { type: "boolean" },
+        results: {
+          type: "array",
+          items: object(
+            {
+              index: { type: "integer" },
+              op: { type: "string", enum: ["update", "move", "delete"] },
+              entry_id: { type: "string" },
+              entry: { ...nullable(ref("Entry")), description: "Entry after the operation; null when deleted" }
+            },
+            ["index", "op", "entry_id", "entry"]
+          )
+        },
+        totals: { type: "array", description: "Totals for every date the batch touched", items: ref("DailySummary") }
+      },
+      ["ok", "results", "totals"]
+    )
+  },
+  search: {
+    operationId: "searchEntries",
+    summary: "Search entries by item name and raw text, newest first",
+    description:
+      "Matches word prefixes only, not substrings: every word of q must start a word of the entry's item or raw_text, so pizz finds \"Pepperoni pizza\" but izza does not. Ignores case and accents.",
+    querystring: object(
+      {
+        q: { type: "string", minLength: 1, examples: ["pizza"] },
+        start: DATE,
+        end: DATE,
+        meal_type: MEAL_TYPE,
+        limit: { ...PAGE_QUERY.limit, default: 20 },
+        offset: { type: "integer", minimum: 0, default: 0 }
+      },
+      ["q"]
+    ),
+    success: object({ q: { type: "string" }, entries: { type: "array", items: ref("Entry") } }, ["q", "entries"])
+  },
+  history: {
+    operationId: "getEntryHistory",
+    summary: "List the revisions recorded for an entry, oldest first",
+    querystring: object({ entry_id: { type: "string", minLength: 1 } }, ["entry_id"]),
+    success: object({ entry_id: { type: "string" }, revisions: { type: "array", items: ref("Revision") } }, [
+      "entry_id",
+      "revisions"
+    ])
+  },
+  undo: {
+    operationId: "undoEntryChange",
+    summary: "Undo the most recent change to an entry that has not been undone",
+    body: ref("EntryIdRequest"),
+    success: object(
+      {
+        ok: { type: "boolean" },
+        entry_id: { type: "string" },
+        undone: { type: "string", enum: ["create", "update", "delete"] },
+        entry: nullable(ref("Entry")),
+        date: DATE,
+        ...DAILY_TOTALS,
+        ...BUDGET
+      },
+      ["ok", "entry_id", "undone", "entry", "date", "total_calories"]
+    )
+  },
+  getSettings: {
+    operationId: "getSettings",
+    summary: "Get the user's settings",
+    success: object(
+      {
+        settings: ref("SettingsRequest"),
+        timezone: { type: "string" },
+        meal_types: { type: "array", items: ref("MealTypeSetting"), description: "Meal types in force, in display order" },
+        review_threshold: { ...NUMBER, description: "Review threshold in force" }
+      },
+      ["settings", "timezone", "meal_types", "review_threshold"]
+    )
+  },
+  updateSettings: {
+    operationId: "updateSettings",
+    summary: "Update the user's settings",
+    body: ref("SettingsRequest"),
+    success: object({ ok: { type: "boolean" }, settings: ref("SettingsRequest") }, ["ok", "settings"])
+  },
+  listGoals: {
+    operationId: "listGoals",
+    summary: "List daily goals and the goal in force on a date",
+    querystring: object({ date: DATE, tz: TZ }),
+    success: object({ date: DATE, current: GOAL_OR_NULL, goals: { type: "array", items: ref("Goal") } }, [
+      "date",
+      "current",
+      "goals"
+    ])
+  },
+  setGoal: {
+    operationId: "setGoal",
+    summary: "Set a daily goal effective from a date",
+    body: ref("GoalRequest"),
+    success: object({ ok: { type: "boolean" }, goal: ref("Goal") }, ["ok", "goal"])
+  },
+  deleteGoal: {
+    operationId: "deleteGoal",
+    summary: "Delete the goal with the given effective_from date",
+    body: object({ effective_from: DATE }, ["effective_from"]),
+    success: okWith("effective_from")
+  },
+  listFoods: {
+    operationId: "listFoods",
+    summary: "List saved foods",
+    querystring: object({ q: { type: "string", description: "Case-insensitive name filter" } }),
+    success: object({ foods: { type: "array", items: ref("SavedFood") } }, ["foods"])
+  },
+  createFood: {
+    operationId: "createFood",
+    summary: "Save a food for logging by reference",
+    body: ref("FoodRequest"),
+    success: ref("FoodResponse")
+  },
+  updateFood: {
+    operationId: "updateFood",
+    summary: "Update a saved food",
+    body: object({ food_id: { type: "string", minLength: 1 }, updates: ref("FoodFields") }, ["food_id", "updates"]),
+    success: ref("FoodResponse")
+  },
+  deleteFood: {
+    operationId: "deleteFood",
+    summary: "Delete a saved food",
+    body: idBody("food_id"),
+    success: okWith("food_id")
+  },
+  listRecipes: {
+    operationId: "listRecipes",
+    summary: "List recipes with per-serving nutrition",
+    success: object({ recipes: { type: "array", items: ref("Recipe") } }, ["recipes"])
+  },
+  createRecipe: {
+    operationId: "createRecipe",
+    summary: "Create a recipe from ingredients",
+    body: ref("RecipeRequest"),
+    success: ref("RecipeResponse")
+  },
+  updateRecipe: {
+    operationId: "updateRecipe",
+    summary: "Update a recipe; already-logged entries keep their values",
+    body: object({ recipe_id: { type: "string", minLength: 1 }, updates: ref("RecipeFields") }, ["recipe_id", "updates"]),
+    success: ref("RecipeResponse")
+  },
+  deleteRecipe: {
+    operationId: "deleteRecipe",
+    summary: "Delete a recipe",
+    body: idBody("recipe_id"),
+    success: okWith("recipe_id")
+  },
+  listWeights: {
+    operationId: "listWeights",
+    summary: "List weigh-ins for a date range",
+    querystring: object(RANGE_QUERY, ["start", "end"]),
+    success: object({ start: DATE, end: DATE, weights: { type: "array", items: ref("WeightEntry") } }, [
+      "start",
+      "end",
+      "weights"
+    ])
+  },
+  logWeight: {
+    operationId: "logWeight",
+    summary: "Log a weigh-in",
+    body: ref("WeightRequest"),
+    success: object({ ok: { type: "boolean" }, weight: ref("WeightEntry") }, ["ok", "weight"])
+  },
+  deleteWeight: {
+    operationId: "deleteWeight",
+    summary: "Delete a weigh-in",
+    body: idBody("weight_id"),
+    success: okWith("weight_id")
+  },
+  listActivities: {
+    operationId: "listActivities",
+    summary: "List logged activities for a date range",
+    querystring: object(RANGE_QUERY, ["start", "end"]),
+    success: object({ start: DATE, end: DATE, activities: { type: "array", items: ref("Activity") } }, [
+      "start",
+      "end",
+      "activities"
+    ])
+  },
+  logActivity: {
+    operationId: "logActivity",
+    summary: "Log exercise or another activity with the calories it burned",
+    querystring: object({ tz: TZ }),
+    body: ref("ActivityRequest"),
+    success: ref("ActivityResponse")
+  },
+  updateActivity: {
+    operationId: "updateActivity",
+    summary: "Update a logged activity",
+    body: object({ activity_id: { type: "string", minLength: 1 }, updates: ref("ActivityFields") }, ["activity_id", "updates"]),
+    success: ref("ActivityResponse")
+  },
+  deleteActivity: {
+    operationId: "deleteActivity",
+    summary: "Delete a logged activity",
+    body: idBody("activity_id"),
+    success: okWith("activity_id")
+  },
+  trends: {
+    operationId: "getTrends",
+    summary: "Smoothed weight trend and estimated maintenance calories (TDEE)",
+    querystring: object({
+      start: DATE,
+      end: { ...DATE, description: "Defaults to today" },
+      days: { type: "integer", minimum: 1, maximum: 3660, default: 28, description: "Range length when start is omitted" },
+      window: { type: "integer", minimum: 2, maximum: 365, default: 14, description: "Rolling window in days for the TDEE estimate" },
+      unit: { type: "string", enum: ["kg", "lb"] },
+      tz: TZ
+    }),
+    success: object(
+      {
+        start: DATE,
+        end: DATE,
+        unit: { type: "string" },
+        window: { type: "integer" },
+        days: {
+          type: "array",
+          items: object(
+            {
+              date: DATE,
+              weight: nullable(NUMBER),
+              trend: nullable(NUMBER),
+              calories: { ...nullable(NUMBER), description: "Null when no food was logged that day" },
+              tdee: nullable(NUMBER)
+            },
+            ["date", "weight", "trend", "calories", "tdee"]
+          )
+        },
+        summary: object({
+          trend: nullable(NUMBER),
+          change: nullable(NUMBER),
+          weekly_rate: nullable(NUMBER),
+          weigh_ins: { type: "integer" },
+          logged_days: { type: "integer" },
+          average_intake: nullable(NUMBER),
+          tdee: nullable(NUMBER)
+        })
+      },
+      ["start", "end", "unit", "window", "days", "summary"]
+    )
+  },
+  adherence: {
+    operationId: "getAdherenceReport",
+    summary: "Logging streaks, days on goal and most often skipped meals",
+    description:
+      "A day counts as logged when it meets the logging rule: the user's saved logging_rule setting unless require_meals or min_calories are given.",
+    querystring: object({
+      start: DATE,
+      end: { ...DATE, description: "Defaults to today" },
+      days: { type: "integer", minimum: 1, maximum: 3660, default: 30, description: "Range length when start is omitted" },
+      tolerance: {
+        type: "number",
+        minimum: 0,
+        maximum: 100,
+        default: 10,
+        description: "Percent either side of the calorie goal that counts as on target"
+      },
+      require_meals: { type: "string", description: "Comma-separated meal types a logged day must include", examples: ["breakfast,dinner"] },
+      min_calories: { ...NON_NEGATIVE, description: "Calories a logged day must reach" },
+      tz: TZ
+    }),
+    success: object(
+      {
+        start: DATE,
+        end: DATE,
+        rule: ref("LoggingRule"),
+        tolerance: NUMBER,
+        days: { type: "integer" },
+        logged_days: { type: "integer" },
+        streaks: object(
+          {
+            current: { type: "integer", description: "Logged days in a row up to the end date (or the day before, while it is unlogged)" },
+            longest: { type: "integer" },
+            longest_start: nullable(DATE),
+            longest_end: nullable(DATE)
+          },
+          ["current", "longest", "longest_start", "longest_end"]
+        ),
+        goal: object(
+          {
+            days_with_goal: { type: "integer", description: "Logged days that had a calorie goal" },
+            within: { type: "integer" },
+            over: { type: "integer" },
+            under: { type: "integer" },
+            rate: { ...nullable(NUMBER), description: "Share of days_with_goal within tolerance, 0-1" }
+          },
+          ["days_with_goal", "within", "over", "under", "rate"]
+        ),
+        skipped_meals: {
+          type: "array",
+          description: "Meal types missing on days with any entry, most often skipped first",
+          items: object({ meal_type: MEAL_TYPE, days: { type: "integer" }, rate: NUMBER }, ["meal_type", "days", "rate"])
+        }
+      },
+      ["start", "end", "rule", "tolerance", "days", "logged_days", "streaks", "goal", "skipped_meals"]
+    )
+  },
+  reviewQueue: {
+    operationId: "listReviewQueue",
+    summary: "List low-confidence entries waiting to be confirmed, by date",
+    description: "Entries below the confidence threshold that have not been confirmed, with the raw_text they were logged from.",
+    querystring: object({
+      start: DATE,
+      end: { ...DATE, description: "Defaults to today" },
+      days: { type: "integer", minimum: 1, maximum: 3660, default: 30, description: "Range length when start is omitted" },
+      threshold: { type: "number", minimum: 0, maximum: 1, description: "Overrides the saved review_threshold" },
+      limit: { type: "integer", minimum: 1, maximum: 1000, default: 100 },
+      tz: TZ
+    }),
+    success: object(
+      {
+        start: DATE,
+        end: DATE,
+        threshold: NUMBER,
+        count: { type: "integer", description: "Entries waiting in the range, including any past limit" },
+        unconfirmed_calories: { ...NUMBER, description: "Calories of every waiting entry in the range" },
+        entries: { type: "array", items: ref("Entry") }
+      },
+      ["start", "end", "threshold", "count", "unconfirmed_calories", "entries"]
+    )
+  },
+  confirmEntry: {
+    operationId: "confirmEntry",
+    summary: "Confirm a low-confidence entry, optionally correcting its calories and macros",
+    body: object(
+      { entry_id: { type: "string", minLength: 1 }, calories: { ...NON_NEGATIVE, description: "Corrected calories" }, ...MACROS },
+      ["entry_id"]
+    ),
+    success: {
+      allOf: [ref("ModifyResponse"), object({ entry: ref("Entry") }, ["entry"])]
+    }
+  },
+  listWebhooks: {
+    operationId: "listWebhooks",
+    summary: "List webhook subscriptions",
+    hidden: true
+  },
+  createWebhook: {
+    operationId: "createWebhook",
+    summary: "Subscribe a URL to entry and daily total events",
+    hidden: true,
+    body: object(
+      {
+        url: { type: "string", minLength: 1 },
+        events: { type: "array", minItems: 1, items: { type: "string", enum: WEBHOOK_EVENT_TYPES } }
+      },
+      ["url"]
+    )
+  },
+  deleteWebhook: {
+    operationId: "deleteWebhook",
+    summary: "Delete a webhook subscription",
+    hidden: true,
+    body: idBody("webhook_id")
+  },
+  testWebhook: {
+    operationId: "testWebhook",
+    summary: "Send a sample event to a webhook once and return the delivery",
+    hidden: true,
+    body: idBody("webhook_id")
+  },
+  listWebhookDeliveries: {
+    operationId: "listWebhookDeliveries",
+    summary: "Most recent webhook deliveries, newest first",
+    hidden: true,
+    querystring: object({ webhook_id: { type: "string" }, limit: { type: "integer", minimum: 1, maximum: 200, default: 50 } })
+  },
+  reconcile: {
+    operationId: "reconcileTotals",
+    summary: "Compare stored daily totals with the sum of entries and optionally repair them",
+    hidden: true,
+    body: object({ ...RANGE_QUERY, repair: { type: "boolean", default: false } }, ["start", "end"])
+  }
+} satisfies Record<string, RouteSchema>;
+
+/** Typed as plain route schemas so routes without body or query still satisfy `FastifySchema`. */
+export const routeSchemas: Record<keyof typeof ROUTE_SCHEMAS, RouteSchema> = ROUTE_SCHEMAS;
@@ -0,0 +1,44 @@
+import type { EntryInput } from "./storage.js";
+
+/** Query words shorter than this are ignored; every prefix of at least this length is indexed. */
+export const MIN_TERM_LENGTH = 2;
+/** Longer words are indexed and matched on their first characters only. */
+const MAX_TERM_LENGTH = 20;
+
+/** Lowercased words of `text` with accents removed, split on anything that is not a letter or digit. */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+/** Normalised terms of a search query; an entry matches when every term starts one of its words. */
+export function searchTerms(query: string): string[] {
+  const terms = tokenize(query)
+    .filter((word) => word.length >= MIN_TERM_LENGTH)
+    .map((word) => word.slice(0, MAX_TERM_LENGTH));
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Every word prefix of the entry's `item` and `raw_text`, so that a single `array-contains` lookup
+ * on a stored copy finds entries whose words start with a term.
+ */
+export function searchTokens(entry: Pick<EntryInput, "item" | "raw_text">): string[] {
+  const tokens = new Set<string>();
+  for (const word of tokenize(`${entry.item || ""} ${entry.raw_text || ""}`)) {
+    for (let length = MIN_TERM_LENGTH; length <= Math.min(word.length, MAX_TERM_LENGTH); length += 1) {
+      tokens.add(word.slice(0, length));
+    }
+  }
+  return Array.from(tokens);
+}
+
+export function matchesSearch(tokens: string[], terms: string[]): boolean {
+  const available = new Set(tokens);
+  return terms.every((term) => available.has(term));
+}
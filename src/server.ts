@@ -1,11 +1,140 @@
-import Fastify from "fastify";
-import { fingerprint, normalizeDate, numberOrZero, requireField, validateLogRequest, validateUpdateRequest } from "./lib.js";
-import type { StorageAdapter } from "./storage.js";
-import type { LogRequest, UpdateRequest, DeleteRequest } from "./types.js";
+import { Readable } from "node:stream";
+import Fastify, { type FastifyError, type FastifyRequest } from "fastify";
+import { computeAdherence } from "./adherence.js";
+import { ENTRY_CSV_COLUMNS, TOTALS_CSV_COLUMNS, formatCsvRow } from "./csv.js";
+import { addDays, assertTimeZone, dateInTimeZone, enumerateDates, validateRange, zonedNow } from "./dates.js";
+import {
+  DEFAULT_IDEMPOTENCY_RETENTION_HOURS,
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_LOCK_MS,
+  parseIdempotencyKey,
+  requestHash
+} from "./idempotency.js";
+import { parseImport } from "./import.js";
+import { buildOpenApiDocument, type DocumentedRoute } from "./openapi.js";
+import { reconcileTotals } from "./reconcile.js";
+import { groupTotals, summaryStats } from "./rollups.js";
+import { routeSchemas, sharedSchemas, type RouteSchema } from "./schemas.js";
+import { MIN_TERM_LENGTH, searchTerms } from "./search.js";
+import { computeTrends, toKg } from "./trends.js";
+import {
+  TEST_EVENT_TYPE,
+  createWebhookDispatcher,
+  createWebhookEvent,
+  generateWebhookSecret,
+  type WebhookDeliveryOptions
+} from "./webhooks.js";
+import {
+  DEFAULT_LOGGING_RULE,
+  DEFAULT_MEAL_TYPES,
+  DEFAULT_REVIEW_THRESHOLD,
+  MACRO_FIELDS,
+  addNutrients,
+  fingerprint,
+  goalStatus,
+  encodeCursor,
+  needsReview,
+  energyBalance,
+  normalizeDate,
+  normalizeMealType,
+  nutrientsOf,
+  numberOrZero,
+  recipeServingNutrients,
+  remainingBudget,
+  requireField,
+  resolveGoal,
+  toDailyTotals,
+  toPageRequest,
+  validateActivityRequest,
+  validateFoodRequest,
+  validateGoalRequest,
+  validateLogRequest,
+  validateRecipeRequest,
+  validateLoggingRule,
+  validateSettingsRequest,
+  validateUpdateRequest,
+  validateWebhookRequest,
+  validateBatchRequest,
+  validateConfirmRequest,
+  validateCopyRequest,
+  validateWeightRequest,
+  type LogReferences
+} from "./lib.js";
+import {
+  chunkEntriesByDate,
+  type DailyTotalRow,
+  type Entry,
+  type EntryInput,
+  type Goal,
+  type Recipe,
+  type RevisionMeta,
+  type SavedFood,
+  type StorageAdapter
+} from "./storage.js";
+import type {
+  ActivityRequest,
+  ActivityUpdateRequest,
+  AdherenceQuery,
+  BatchRequest,
+  ConfirmRequest,
+  CopyRequest,
+  CursorPageQuery,
+  DailyTotals,
+  DateQuery,
+  LogRequest,
+  UpdateRequest,
+  DeleteRequest,
+  ExportQuery,
+  FoodRequest,
+  FoodUpdateRequest,
+  FoodsQuery,
+  GoalRequest,
+  GoalsQuery,
+  HistoryQuery,
+  ImportQuery,
+  ImportRequest,
+  MacroField,
+  MealType,
+  MealTypeSetting,
+  Nutrients,
+  RangeQuery,
+  RecipeRequest,
+  RecipeUpdateRequest,
+  ReconcileRequest,
+  ReviewQuery,
+  SearchQuery,
+  SettingsRequest,
+  SummaryLastQuery,
+  SummaryQuery,
+  SummaryRangeQuery,
+  TimeZoneQuery,
+  TrendsQuery,
+  WebhookDeliveriesQuery,
+  WebhookRequest,
+  WeightRequest,
+  WeightUnit
+} from "./types.js";
+
+/** CSV imports can carry years of history, so they get a larger body limit than other routes. */
+const IMPORT_BODY_LIMIT = 20 * 1024 * 1024;
+
+/** Extra days of weigh-ins read before a trend range so the smoothed trend has settled. */
+const TREND_WARMUP_DAYS = 30;
 
 export interface ServerOptions {
-  authToken: string;
+  /** Maps each API token to the id of the user it authenticates. */
+  authTokens: Record<string, string>;
   storage: StorageAdapter;
+  /** IANA timezone for users without one configured; defaults to UTC. */
+  defaultTimezone?: string;
+  /** Base URL advertised in `/openapi.json`; defaults to the URL the document was requested from. */
+  publicUrl?: string;
+  /** Retry, backoff and timeout settings for webhook deliveries. */
+  webhookDelivery?: Partial<WebhookDeliveryOptions>;
+  /** Lets webhooks target localhost and private networks, for local development; off by default. */
+  allowPrivateWebhookUrls?: boolean;
+  /** How long responses to requests with an `Idempotency-Key` are replayed for repeats; defaults to 24 hours. */
+  idempotencyRetentionHours?: number;
 }
 
 export function buildServer(options: ServerOptions) {
@@ -22,260 +151,705 @@ export function buildServer(options: ServerOptions) {
             }
           }
         }
-      : true
+      : true,
+    ajv: { customOptions: { allErrors: true } }
+  });
+
+  for (const schema of sharedSchemas) {
+    app.addSchema(schema);
+  }
+
+  const documentedRoutes: DocumentedRoute[] = [];
+  app.addHook("onRoute", (route) => {
+    const schema = route.schema as RouteSchema | undefined;
+    for (const method of [route.method].flat()) {
+      if (schema?.operationId && method !== "HEAD") {
+        documentedRoutes.push({ method, url: route.url, schema });
+      }
+    }
+  });
+
+  app.setErrorHandler((error: FastifyError, request, reply) => {
+    if (error.validation) {
+      const details = error.validation.map((issue) => validationDetail_(error.validationContext, issue));
+      const summary = details.map((detail) => `${detail.field} ${detail.message}`).join("; ");
+      return reply.status(400).send({ ok: false, error: `Invalid request: ${summary}`, details });
+    }
+    const statusCode = error.statusCode || 500;
+    if (statusCode >= 500) {
+      request.log.error(error);
+      return reply.status(statusCode).send({ ok: false, error: "Internal server error" });
+    }
+    return reply.status(statusCode).send({ ok: false, error: error.message });
+  });
+
+  app.addContentTypeParser("text/csv", { parseAs: "string", bodyLimit: IMPORT_BODY_LIMIT }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  const webhooks = createWebhookDispatcher(options.storage, {
+    ...options.webhookDelivery,
+    allowPrivateHosts: options.allowPrivateWebhookUrls,
+    onError: (err) => app.log.error({ err }, "webhook dispatch failed")
   });
+  // Let queued deliveries finish before shutting down.
+  app.addHook("onClose", async () => webhooks.idle());
+
+  const tokens = new Map(Object.entries(options.authTokens));
+  const defaultTimezone = assertTimeZone(options.defaultTimezone || "UTC");
 
   function authCheck(headers: Record<string, string | undefined>) {
     const provided = headers["x-auth-token"];
-    if (!provided || provided !== options.authToken) {
+    const userId = provided ? tokens.get(provided) : undefined;
+    if (!userId) {
       return {
-        ok: false,
+        ok: false as const,
         error: "Unauthorized",
         auth: {
           provided: provided ? "present" : "missing",
-          provided_fp: fingerprint(provided),
-          expected_fp: fingerprint(options.authToken)
+          provided_fp: fingerprint(provided)
         }
       };
     }
-    return { ok: true };
+    return { ok: true as const, userId };
+  }
+
+  // POST requests sent with an Idempotency-Key claim the key before the handler runs. Repeats of the same
+  // request get the stored response back instead of running again; reusing the key for another request is a 409.
+  const retentionMs = (options.idempotencyRetentionHours ?? DEFAULT_IDEMPOTENCY_RETENTION_HOURS) * 60 * 60 * 1000;
+  const claimedKeys = new WeakMap<FastifyRequest, { userId: string; key: string }>();
+
+  app.addHook("preHandler", async (request, reply) => {
+    if (request.method !== "POST") {
+      return;
+    }
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return;
+    }
+    let key: string | null;
+    try {
+      key = parseIdempotencyKey(request.headers[IDEMPOTENCY_HEADER]);
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+    if (!key) {
+      return;
+    }
+
+    const now = Date.now();
+    const hash = requestHash(request.method, request.url, request.body);
+    const existing = await options.storage.claimIdempotencyKey(auth.userId, {
+      key,
+      request_hash: hash,
+      response: null,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + IDEMPOTENCY_LOCK_MS).toISOString()
+    });
+    if (!existing) {
+      claimedKeys.set(request, { userId: auth.userId, key });
+      return;
+    }
+    if (existing.request_hash !== hash) {
+      return reply
+        .status(409)
+        .send({ ok: false, error: "Idempotency-Key was already used for a different request. Use a new key." });
+    }
+    if (!existing.response) {
+      return reply
+        .status(409)
+        .send({ ok: false, error: "A request with this Idempotency-Key is still in progress. Retry shortly." });
+    }
+    return reply
+      .status(existing.response.status_code)
+      .header("content-type", existing.response.content_type)
+      .header("idempotent-replayed", "true")
+      .send(existing.response.body);
+  });
+
+  app.addHook("onSend", async (request, reply, payload) => {
+    const claim = claimedKeys.get(request);
+    if (!claim) {
+      return payload;
+    }
+    claimedKeys.delete(request);
+    // Server errors may not happen again, so the key is freed for a retry rather than replaying the failure.
+    if (reply.statusCode >= 500 || typeof payload !== "string") {
+      await options.storage.releaseIdempotencyKey(claim.userId, claim.key);
+      return payload;
+    }
+    const response = {
+      status_code: reply.statusCode,
+      content_type: String(reply.getHeader("content-type") || "application/json; charset=utf-8"),
+      body: payload
+    };
+    try {
+      await options.storage.completeIdempotencyKey(
+        claim.userId,
+        claim.key,
+        response,
+        new Date(Date.now() + retentionMs).toISOString()
+      );
+    } catch (err) {
+      // The request itself succeeded; a retry will see the key as in progress until its claim expires.
+      request.log.error({ err }, "storing idempotent response failed");
+    }
+    return payload;
+  });
+
+  /** Timezone from the `X-Timezone` header or `tz` query, else the user's setting, else the server default. */
+  async function resolveTimeZone(request: Pick<FastifyRequest, "headers" | "query">, userId?: string): Promise<string> {
+    const query = request.query as TimeZoneQuery;
+    const requested = (request.headers["x-timezone"] as string | undefined) || query.tz;
+    if (requested) {
+      return assertTimeZone(requested);
+    }
+    if (userId) {
+      const settings = await options.storage.getSettings(userId);
+      if (settings.timezone) {
+        return settings.timezone;
+      }
+    }
+    return defaultTimezone;
+  }
+
+  async function mealTypesFor(userId: string): Promise<MealTypeSetting[]> {
+    return (await options.storage.getSettings(userId)).meal_types || DEFAULT_MEAL_TYPES;
+  }
+
+  async function loadLogReferences(userId: string, payload: LogRequest): Promise<LogReferences> {
+    const foods: Record<string, SavedFood> = {};
+    const foodIds = new Set((payload?.items || []).map((item) => item.food_id).filter(Boolean));
+    for (const foodId of foodIds) {
+      const food = await options.storage.getFood(userId, String(foodId));
+      if (food) {
+        foods[food.food_id] = food;
+      }
+    }
+    const recipes: Record<string, Recipe> = {};
+    const recipeIds = new Set((payload?.items || []).map((item) => item.recipe_id).filter(Boolean));
+    for (const recipeId of recipeIds) {
+      const recipe = await options.storage.getRecipe(userId, String(recipeId));
+      if (recipe) {
+        recipes[recipe.recipe_id] = recipe;
+      }
+    }
+    return { foods, recipes };
+  }
+
+  /** Calories burned per date in the user's activity log; dates without activities are absent. */
+  async function burnedByDate(userId: string, start: string, end: string): Promise<Map<string, number>> {
+    const burned = new Map<string, number>();
+    for (const activity of await options.storage.listActivities(userId, start, end)) {
+      burned.set(activity.date, (burned.get(activity.date) || 0) + activity.calories_burned);
+    }
+    return burned;
+  }
+
+  /** Calories per date from entries still waiting for review; dates without any are absent. */
+  async function unconfirmedByDate(userId: string, start: string, end: string): Promise<Map<string, number>> {
+    const threshold = (await options.storage.getSettings(userId)).review_threshold ?? DEFAULT_REVIEW_THRESHOLD;
+    const unconfirmed = new Map<string, number>();
+    for await (const entry of options.storage.streamEntriesRange(userId, start, end)) {
+      if (needsReview(entry, threshold)) {
+        unconfirmed.set(entry.date, numberOrZero((unconfirmed.get(entry.date) || 0) + entry.calories));
+      }
+    }
+    return unconfirmed;
+  }
+
+  /** Adds `unconfirmed_calories` to daily rows when the caller asked for it. */
+  async function withUnconfirmed<T extends { date: string }>(
+    userId: string,
+    rows: T[],
+    start: string,
+    end: string,
+    include: boolean
+  ): Promise<Array<T & { unconfirmed_calories?: number }>> {
+    if (!include) {
+      return rows;
+    }
+    const unconfirmed = await unconfirmedByDate(userId, start, end);
+    return rows.map((row) => ({ ...row, unconfirmed_calories: unconfirmed.get(row.date) || 0 }));
   }
 
-  async function updateDailyTotal(date: string, delta: number) {
-    await options.storage.incrementTotal(date, delta);
+  /** The goal in force on the date and what is left of it, counting burned calories when the user opted in. */
+  async function dailyBudget(userId: string, date: string, total: DailyTotals) {
+    const goal = resolveGoal(await options.storage.listGoals(userId), date);
+    if (!goal) {
+      return { goal, remaining: null };
+    }
+    const settings = await options.storage.getSettings(userId);
+    const burned = settings.count_burned_calories ? (await burnedByDate(userId, date, date)).get(date) || 0 : 0;
+    return { goal, remaining: remainingBudget(goal, { ...total, total_calories: total.total_calories - burned }) };
+  }
+
+  /**
+   * Creates entries in date-grouped chunks, each written at once with its daily totals and revisions. Stops at the
+   * first chunk that fails and returns the entries created before it along with the error.
+   */
+  async function createEntriesByDate(userId: string, entries: EntryInput[], meta: RevisionMeta) {
+    const created: Entry[] = [];
+    try {
+      for (const chunk of chunkEntriesByDate(entries)) {
+        created.push(...(await options.storage.createEntries(userId, chunk, meta)));
+      }
+      return { created, error: null };
+    } catch (err) {
+      return { created, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /** A `daily_total.changed` event for each date, with the total as stored now. */
+  async function dailyTotalEvents(userId: string, dates: Iterable<string>) {
+    const events = [];
+    for (const date of new Set(dates)) {
+      events.push({ type: "daily_total.changed" as const, data: { date, ...(await options.storage.getTotal(userId, date)) } });
+    }
+    return events;
+  }
+
+  /** Adds each day's intake, burned and net calories, its goal and whether the day went over it. */
+  async function withGoalStatus(userId: string, rows: DailyTotalRow[], start: string, end: string) {
+    const goals = await options.storage.listGoals(userId);
+    const settings = await options.storage.getSettings(userId);
+    const burned = await burnedByDate(userId, start, end);
+    return rows.map((row) => {
+      const goal = resolveGoal(goals, row.date);
+      const balance = energyBalance(row.total_calories, burned.get(row.date) || 0);
+      return {
+        ...row,
+        ...balance,
+        goal,
+        status: goalStatus(goal, settings.count_burned_calories ? balance.net : balance.intake)
+      };
+    });
   }
 
-  app.get("/health", async () => ({ ok: true }));
+  app.get("/health", { schema: routeSchemas.health }, async () => ({ ok: true }));
 
-  app.get("/time", async () => ({ datetime: new Date().toISOString() }));
+  app.get("/openapi.json", { schema: routeSchemas.openapi }, async (request) =>
+    buildOpenApiDocument(documentedRoutes, {
+      serverUrl: options.publicUrl || `${request.protocol}://${request.hostname}`,
+      sharedSchemas
+    })
+  );
+
+  app.get<{ Querystring: TimeZoneQuery }>("/time", { schema: routeSchemas.time }, async (request, reply) => {
+    try {
+      const auth = authCheck(request.headers as Record<string, string | undefined>);
+      const now = new Date();
+      const timeZone = await resolveTimeZone(request, auth.ok ? auth.userId : undefined);
+      return reply.send({ datetime: now.toISOString(), ...zonedNow(timeZone, now) });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
 
-  app.get("/summary", async (request, reply) => {
+  app.get<{ Querystring: SummaryQuery }>("/summary", { schema: routeSchemas.summary }, async (request, reply) => {
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const query = request.query as Record<string, string | undefined>;
+      const query = request.query;
       const date = normalizeDate(requireField(query, "date"));
-      const total = await options.storage.getTotal(date);
-      return reply.send({ date, total_calories: total });
+      const total = await options.storage.getTotal(auth.userId, date);
+      const burned = (await burnedByDate(auth.userId, date, date)).get(date) || 0;
+      const budget = await dailyBudget(auth.userId, date, total);
+      const [summary] = await withUnconfirmed(
+        auth.userId,
+        [{ date, ...total, ...energyBalance(total.total_calories, burned), ...budget }],
+        date,
+        date,
+        query.include_unconfirmed
+      );
+      return reply.send(summary);
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.get("/summary-range", async (request, reply) => {
+  app.get<{ Querystring: SummaryRangeQuery }>("/summary-range", { schema: routeSchemas.summaryRange }, async (request, reply) => {
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const query = request.query as Record<string, string | undefined>;
+      const query = request.query;
       const start = normalizeDate(requireField(query, "start"));
       const end = normalizeDate(requireField(query, "end"));
-      const includeEmpty = String(query.include_empty || "").toLowerCase() === "true";
-      const group = String(query.group || "").toLowerCase();
+      const includeEmpty = query.include_empty;
+      const dates = enumerateDates(start, end);
+      const rows = await options.storage.getTotalsRange(auth.userId, start, end);
+      const stats = summaryStats(rows, dates);
+
+      if (query.group === "week" || query.group === "month") {
+        const periods = groupTotals(rows, dates, query.group, query.week_start);
+        return reply.send({
+          start,
+          end,
+          group: query.group,
+          ...(query.group === "week" ? { week_start: query.week_start } : {}),
+          totals: includeEmpty ? periods : periods.filter((period) => period.logged_days > 0),
+          stats
+        });
+      }
 
-      if (group === "meal_type") {
-        const entries = await options.storage.listEntriesRange(start, end, 10000, 0);
-        const totalsByDate: Record<string, Record<string, number>> = {};
-        for (const entry of entries) {
+      if (query.group === "meal_type") {
+        const mealTypes = (await mealTypesFor(auth.userId)).map((mealType) => mealType.name);
+        const totalsByDate: Record<string, Record<string, Nutrients>> = {};
+        for await (const entry of options.storage.streamEntriesRange(auth.userId, start, end)) {
           const dateKey = entry.date;
-          if (!totalsByDate[dateKey]) {
-            totalsByDate[dateKey] = { breakfast: 0, lunch: 0, dinner: 0, snacks: 0 };
-          }
           const meal = String(entry.meal_type || "");
-          if (meal in totalsByDate[dateKey]) {
-            totalsByDate[dateKey][meal] = numberOrZero(totalsByDate[dateKey][meal] + numberOrZero(entry.calories));
+          if (!meal) {
+            continue;
           }
+          // Entries keep meal types the user has since removed; report those after the configured ones.
+          if (!mealTypes.includes(meal)) {
+            mealTypes.push(meal);
+          }
+          totalsByDate[dateKey] = totalsByDate[dateKey] || {};
+          totalsByDate[dateKey][meal] = addNutrients(totalsByDate[dateKey][meal] || nutrientsOf({}), nutrientsOf(entry));
         }
 
-        const dates = includeEmpty ? enumerateDates_(start, end) : Object.keys(totalsByDate).sort();
-        const totals = dates.map((date) => ({
-          date,
-          totals: totalsByDate[date] || { breakfast: 0, lunch: 0, dinner: 0, snacks: 0 }
-        }));
-        return reply.send({ start, end, totals, group: "meal_type" });
+        const mealDates = includeEmpty ? dates : Object.keys(totalsByDate).sort();
+        const totals = mealDates.map((date) => {
+          const meals = Object.fromEntries(mealTypes.map((meal) => [meal, totalsByDate[date]?.[meal] || nutrientsOf({})]));
+          return {
+            date,
+            totals: mapMeals_(meals, (value) => value.calories),
+            macros: mapMeals_(meals, (value) => pickMacros_(value))
+          };
+        });
+        return reply.send({ start, end, totals, group: "meal_type", meal_types: mealTypes, stats });
       }
 
-      const totals = await options.storage.getTotalsRange(start, end);
       if (includeEmpty) {
-        const map = new Map(totals.map((item) => [item.date, item.total_calories]));
-        const filled = enumerateDates_(start, end).map((date) => ({
-          date,
-          total_calories: map.get(date) || 0
+        const map = new Map(rows.map((item) => [item.date, item]));
+        const filled = dates.map((date) => ({
+          ...toDailyTotals(nutrientsOf({})),
+          ...map.get(date),
+          date
         }));
-        return reply.send({ start, end, totals: filled });
+        const totals = await withGoalStatus(auth.userId, filled, start, end);
+        return reply.send({
+          start,
+          end,
+          totals: await withUnconfirmed(auth.userId, totals, start, end, query.include_unconfirmed),
+          stats
+        });
       }
 
-      return reply.send({ start, end, totals });
+      const totals = await withGoalStatus(auth.userId, rows, start, end);
+      return reply.send({
+        start,
+        end,
+        totals: await withUnconfirmed(auth.userId, totals, start, end, query.include_unconfirmed),
+        stats
+      });
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.get("/summary-last", async (request, reply) => {
+  app.get<{ Querystring: SummaryLastQuery }>("/summary-last", { schema: routeSchemas.summaryLast }, async (request, reply) => {
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const query = request.query as Record<string, string | undefined>;
-      const days = Number(query.days || 7);
-      if (!Number.isFinite(days) || days <= 0) {
-        throw new Error("days must be a positive number");
-      }
-      const includeEmpty = String(query.include_empty || "").toLowerCase() === "true";
+      const query = request.query;
+      const days = query.days;
+      const includeEmpty = query.include_empty;
 
-      const end = formatLocalDate_(new Date());
-      const start = formatLocalDate_(addDays_(new Date(), -(days - 1)));
-      const totals = await options.storage.getTotalsRange(start, end);
+      const end = dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+      const start = addDays(end, -(days - 1));
+      const totals = await options.storage.getTotalsRange(auth.userId, start, end);
       if (includeEmpty) {
-        const map = new Map(totals.map((item) => [item.date, item.total_calories]));
-        const filled = enumerateDates_(start, end).map((date) => ({
-          date,
-          total_calories: map.get(date) || 0
+        const map = new Map(totals.map((item) => [item.date, item]));
+        const filled = enumerateDates(start, end).map((date) => ({
+          ...toDailyTotals(nutrientsOf({})),
+          ...map.get(date),
+          date
         }));
-        return reply.send({ start, end, totals: filled });
+        const rows = await withGoalStatus(auth.userId, filled, start, end);
+        return reply.send({
+          start,
+          end,
+          totals: await withUnconfirmed(auth.userId, rows, start, end, query.include_unconfirmed)
+        });
       }
 
-      return reply.send({ start, end, totals });
+      const rows = await withGoalStatus(auth.userId, totals, start, end);
+      return reply.send({ start, end, totals: await withUnconfirmed(auth.userId, rows, start, end, query.include_unconfirmed) });
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.get("/list", async (request, reply) => {
+  app.get<{ Querystring: DateQuery & CursorPageQuery }>("/list", { schema: routeSchemas.list }, async (request, reply) => {
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const query = request.query as Record<string, string | undefined>;
+      const query = request.query;
       const date = normalizeDate(requireField(query, "date"));
-      const limit = Number(query.limit || 100);
-      const offset = Number(query.offset || 0);
+      const page = await options.storage.listEntries(auth.userId, date, toPageRequest(query));
+      return reply.send({ date, entries: page.entries, next_cursor: page.next_cursor && encodeCursor(page.next_cursor) });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: RangeQuery & CursorPageQuery }>("/entries-range", { schema: routeSchemas.entriesRange }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
 
-      const entries = await options.storage.listEntries(date, limit, offset);
-      return reply.send({ date, entries });
+    try {
+      const query = request.query;
+      const start = normalizeDate(requireField(query, "start"));
+      const end = normalizeDate(requireField(query, "end"));
+      const page = await options.storage.listEntriesRange(auth.userId, start, end, toPageRequest(query));
+      return reply.send({ start, end, entries: page.entries, next_cursor: page.next_cursor && encodeCursor(page.next_cursor) });
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.get("/entries-range", async (request, reply) => {
+  app.get<{ Querystring: ExportQuery }>("/export", { schema: routeSchemas.export }, async (request, reply) => {
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const query = request.query as Record<string, string | undefined>;
+      const query = request.query;
       const start = normalizeDate(requireField(query, "start"));
       const end = normalizeDate(requireField(query, "end"));
-      const limit = Number(query.limit || 100);
-      const offset = Number(query.offset || 0);
-      const entries = await options.storage.listEntriesRange(start, end, limit, offset);
-      return reply.send({ start, end, entries });
+      validateRange(start, end);
+      const { format, dataset } = query;
+
+      const columns: string[] = dataset === "totals" ? TOTALS_CSV_COLUMNS : ENTRY_CSV_COLUMNS;
+      const rows: AsyncIterable<object> =
+        dataset === "totals"
+          ? toAsyncIterable_(await options.storage.getTotalsRange(auth.userId, start, end))
+          : options.storage.streamEntriesRange(auth.userId, start, end);
+
+      reply.header("content-disposition", `attachment; filename="${dataset}-${start}-to-${end}.${format}"`);
+      reply.type(format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8");
+      return reply.send(Readable.from(exportLines_(rows, columns, format)));
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.post("/log", async (request, reply) => {
-    const payload = request.body as LogRequest;
+  app.post<{ Body: LogRequest; Querystring: TimeZoneQuery }>("/log", { schema: routeSchemas.log }, async (request, reply) => {
+    const payload = request.body;
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const data = validateLogRequest(payload);
+      const date = payload?.date || dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+      const data = validateLogRequest(
+        { ...payload, date },
+        await loadLogReferences(auth.userId, payload),
+        await mealTypesFor(auth.userId)
+      );
       const timestamp = new Date().toISOString();
-      const entryIds: string[] = [];
-      let delta = 0;
 
-      const created = await options.storage.createEntries(
+      const { created, error } = await createEntriesByDate(
+        auth.userId,
         data.items.map((item) => {
-          delta += numberOrZero(item.calories);
+          const nutrients = nutrientsOf(item);
           return {
             timestamp,
             date: data.date,
             meal_type: data.meal_type,
             item: item.name,
             quantity: item.quantity || "",
-            calories: numberOrZero(item.calories),
-            confidence: numberOrZero(item.confidence),
+            ...nutrients,
+            confidence: typeof item.confidence === "undefined" ? 1 : numberOrZero(item.confidence),
             source: String(data.source || ""),
-            raw_text: String(data.raw_text || "")
+            raw_text: String(data.raw_text || ""),
+            ...(item.food_id ? { food_id: item.food_id } : {}),
+            ...(item.recipe_id ? { recipe_id: item.recipe_id } : {})
           };
-        })
+        }),
+        { timestamp, source: "log" }
       );
+      const entryIds = created.map((entry) => entry.entry_id);
 
-      created.forEach((entry) => entryIds.push(entry.entry_id));
-      await updateDailyTotal(data.date, delta);
-
-      const total = await options.storage.getTotal(data.date);
-      return reply.send({ ok: true, date: data.date, total_calories: total, entry_ids: entryIds });
+      const total = await options.storage.getTotal(auth.userId, data.date);
+      webhooks.emit(auth.userId, [
+        ...created.map((entry) => ({ type: "entry.created" as const, data: { entry } })),
+        { type: "daily_total.changed", data: { date: data.date, ...total } }
+      ]);
+      if (error) {
+        return reply.status(400).send({ ok: false, error: partialCreateError_(error, created.length, data.items.length) });
+      }
+      const budget = await dailyBudget(auth.userId, data.date, total);
+      return reply.send({ ok: true, date: data.date, ...total, ...budget, entry_ids: entryIds });
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.post("/update", async (request, reply) => {
-    const payload = request.body as UpdateRequest;
+  app.post<{ Body: CopyRequest; Querystring: TimeZoneQuery }>("/copy", { schema: routeSchemas.copy }, async (request, reply) => {
+    const payload = request.body;
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
     }
 
     try {
-      const data = validateUpdateRequest(payload);
-      const currentEntry = await options.storage.getEntry(data.entry_id);
-      if (!currentEntry) {
-        return reply.status(404).send({ ok: false, error: "entry_id not found" });
+      const data = validateCopyRequest(
+        {
+          ...payload,
+          to_date: payload.to_date || dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId))
+        },
+        await mealTypesFor(auth.userId)
+      );
+      const timestamp = new Date().toISOString();
+
+      const copies: EntryInput[] = [];
+      for await (const entry of options.storage.streamEntriesRange(auth.userId, data.from_date, data.from_date)) {
+        if (data.meal_type && entry.meal_type !== data.meal_type) {
+          continue;
+        }
+        const { entry_id: _entryId, ...input } = entry;
+        copies.push({ ...input, timestamp, date: data.to_date, meal_type: data.to_meal_type || entry.meal_type, source: "copy" });
+      }
+      if (copies.length === 0) {
+        return reply.status(404).send({ ok: false, error: "No entries to copy" });
+      }
+
+      const { created, error } = await createEntriesByDate(auth.userId, copies, { timestamp, source: "copy" });
+      const total = await options.storage.getTotal(auth.userId, data.to_date);
+      webhooks.emit(auth.userId, [
+        ...created.map((entry) => ({ type: "entry.created" as const, data: { entry } })),
+        { type: "daily_total.changed", data: { date: data.to_date, ...total } }
+      ]);
+      if (error) {
+        return reply.status(400).send({ ok: false, error: partialCreateError_(error, created.length, copies.length) });
+      }
+      const budget = await dailyBudget(auth.userId, data.to_date, total);
+      return reply.send({ ok: true, date: data.to_date, ...total, ...budget, entry_ids: created.map((entry) => entry.entry_id) });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: ImportRequest | string; Querystring: ImportQuery }>(
+    "/import",
+    { bodyLimit: IMPORT_BODY_LIMIT, schema: routeSchemas.import },
+    async (request, reply) => {
+      const auth = authCheck(request.headers as Record<string, string | undefined>);
+      if (!auth.ok) {
+        return reply.status(401).send(auth);
       }
 
-      const newDate = data.updates.date || normalizeDate(currentEntry.date);
-      const newMeal = data.updates.meal_type || String(currentEntry.meal_type || "");
-      const newCalories = typeof data.updates.calories === "undefined" ? numberOrZero(currentEntry.calories) : numberOrZero(data.updates.calories);
+      try {
+        const query = request.query;
+        const payload: ImportRequest =
+          typeof request.body === "string" ? { csv: request.body, format: query.format, dry_run: query.dry_run } : request.body;
+        const csv = String(requireField(payload, "csv"));
+        const dryRun = payload.dry_run === true;
+        const timestamp = new Date().toISOString();
 
-      const updatePayload = {
-        date: newDate,
-        meal_type: newMeal,
-        item: typeof data.updates.item === "undefined" ? String(currentEntry.item || "") : data.updates.item,
-        quantity: typeof data.updates.quantity === "undefined" ? String(currentEntry.quantity || "") : data.updates.quantity,
-        calories: newCalories,
-        confidence: typeof data.updates.confidence === "undefined" ? numberOrZero(currentEntry.confidence) : numberOrZero(data.updates.confidence),
-        source: typeof data.updates.source === "undefined" ? String(currentEntry.source || "") : data.updates.source,
-        raw_text: typeof data.updates.raw_text === "undefined" ? String(currentEntry.raw_text || "") : data.updates.raw_text
-      };
+        const result = parseImport(csv, {
+          format: payload.format,
+          timestamp,
+          source: "import",
+          mealTypes: await mealTypesFor(auth.userId)
+        });
+        const summary = {
+          dry_run: dryRun,
+          format: result.format,
+          rows: result.rows,
+          valid: result.entries.length,
+          errors: result.errors,
+          dates: Array.from(new Set(result.entries.map((entry) => entry.date))).sort()
+        };
 
-      await options.storage.updateEntry(data.entry_id, updatePayload);
+        if (dryRun) {
+          return reply.send({ ok: result.errors.length === 0, ...summary, imported: 0 });
+        }
+        if (result.errors.length > 0) {
+          return reply.status(400).send({
+            ok: false,
+            error: `${result.errors.length} row(s) failed validation; nothing was imported`,
+            ...summary,
+            imported: 0
+          });
+        }
 
-      if (newDate !== normalizeDate(currentEntry.date)) {
-        await updateDailyTotal(normalizeDate(currentEntry.date), -numberOrZero(currentEntry.calories));
-        await updateDailyTotal(newDate, numberOrZero(newCalories));
-      } else {
-        const delta = numberOrZero(newCalories) - numberOrZero(currentEntry.calories);
-        if (delta !== 0) {
-          await updateDailyTotal(newDate, delta);
+        const { created, error } = await createEntriesByDate(auth.userId, result.entries, { timestamp, source: "import" });
+        webhooks.emit(auth.userId, [
+          ...created.map((entry) => ({ type: "entry.created" as const, data: { entry } })),
+          ...(await dailyTotalEvents(auth.userId, created.map((entry) => entry.date).sort()))
+        ]);
+        if (error) {
+          return reply.status(400).send({
+            ok: false,
+            error: partialCreateError_(error, created.length, result.entries.length),
+            ...summary,
+            imported: created.length
+          });
         }
+
+        return reply.send({ ok: true, ...summary, imported: created.length });
+      } catch (err) {
+        return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  );
+
+  app.post<{ Body: UpdateRequest }>("/update", { schema: routeSchemas.update }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const data = validateUpdateRequest(payload, await mealTypesFor(auth.userId));
+      const change = await options.storage.updateEntry(
+        auth.userId,
+        data.entry_id,
+        (currentEntry) => applyUpdates_(currentEntry, data.updates),
+        { timestamp: new Date().toISOString(), source: "update" }
+      );
+      if (!change) {
+        return reply.status(404).send({ ok: false, error: "entry_id not found" });
       }
 
-      const total = await options.storage.getTotal(newDate);
-      return reply.send({ ok: true, entry_id: data.entry_id, date: newDate, total_calories: total });
+      const newDate = change.after.date;
+      const total = await options.storage.getTotal(auth.userId, newDate);
+      const previousTotal = change.before.date !== newDate ? await options.storage.getTotal(auth.userId, change.before.date) : null;
+      webhooks.emit(auth.userId, [
+        { type: "entry.updated", data: change },
+        ...(previousTotal ? [{ type: "daily_total.changed" as const, data: { date: change.before.date, ...previousTotal } }] : []),
+        { type: "daily_total.changed", data: { date: newDate, ...total } }
+      ]);
+      const budget = await dailyBudget(auth.userId, newDate, total);
+      return reply.send({ ok: true, entry_id: data.entry_id, date: newDate, ...total, ...budget });
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  app.post("/delete", async (request, reply) => {
-    const payload = request.body as DeleteRequest;
+  app.post<{ Body: DeleteRequest }>("/delete", { schema: routeSchemas.delete }, async (request, reply) => {
+    const payload = request.body;
     const auth = authCheck(request.headers as Record<string, string | undefined>);
     if (!auth.ok) {
       return reply.status(401).send(auth);
@@ -283,57 +857,923 @@ export function buildServer(options: ServerOptions) {
 
     try {
       const entryId = String(requireField(payload, "entry_id"));
-      const currentEntry = await options.storage.getEntry(entryId);
-      if (!currentEntry) {
+      const deletedEntry = await options.storage.deleteEntry(auth.userId, entryId, {
+        timestamp: new Date().toISOString(),
+        source: "delete"
+      });
+      if (!deletedEntry) {
         return reply.status(404).send({ ok: false, error: "entry_id not found" });
       }
 
-      await options.storage.deleteEntry(entryId);
-      await updateDailyTotal(normalizeDate(currentEntry.date), -numberOrZero(currentEntry.calories));
+      const date = normalizeDate(deletedEntry.date);
+      const total = await options.storage.getTotal(auth.userId, date);
+      webhooks.emit(auth.userId, [
+        { type: "entry.deleted", data: { entry: deletedEntry } },
+        { type: "daily_total.changed", data: { date, ...total } }
+      ]);
+      const budget = await dailyBudget(auth.userId, date, total);
+      return reply.send({ ok: true, entry_id: entryId, date, ...total, ...budget });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: BatchRequest }>("/batch", { schema: routeSchemas.batch }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const operations = validateBatchRequest(payload, await mealTypesFor(auth.userId));
+      const result = await options.storage.applyEntryChanges(
+        auth.userId,
+        operations.map((operation) => ({
+          entry_id: operation.entry_id,
+          change: operation.op === "delete" ? null : (currentEntry: Entry) => applyUpdates_(currentEntry, operation.updates)
+        })),
+        { timestamp: new Date().toISOString(), source: "batch" }
+      );
+      if (result.status === "not_found") {
+        const missing = new Set(result.indexes);
+        return reply.status(404).send({
+          ok: false,
+          error: `entry_id not found: ${result.entry_ids.join(", ")}; nothing was changed`,
+          results: operations.map((operation, index) => ({
+            index,
+            op: operation.op,
+            entry_id: operation.entry_id,
+            ok: !missing.has(index),
+            ...(missing.has(index) ? { error: "entry_id not found" } : {})
+          }))
+        });
+      }
 
-      const total = await options.storage.getTotal(normalizeDate(currentEntry.date));
-      return reply.send({ ok: true, entry_id: entryId, date: normalizeDate(currentEntry.date), total_calories: total });
+      const dates = new Set(result.changes.flatMap((change) => [change.before.date, ...(change.after ? [change.after.date] : [])]));
+      const totals = [];
+      const totalEvents = [];
+      for (const date of Array.from(dates).sort()) {
+        const total = await options.storage.getTotal(auth.userId, date);
+        totals.push({ date, ...total, ...(await dailyBudget(auth.userId, date, total)) });
+        totalEvents.push({ type: "daily_total.changed" as const, data: { date, ...total } });
+      }
+      webhooks.emit(auth.userId, [...result.changes.map((change) => entryEvent_(change.before, change.after)), ...totalEvents]);
+      return reply.send({
+        ok: true,
+        results: result.changes.map((change, index) => ({
+          index,
+          op: operations[index].op,
+          entry_id: change.entry_id,
+          entry: change.after
+        })),
+        totals
+      });
     } catch (err) {
       return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
     }
   });
 
-  return app;
-}
+  app.get<{ Querystring: SearchQuery }>("/search", { schema: routeSchemas.search }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
 
-function enumerateDates_(start: string, end: string): string[] {
-  const startDate = toDate_(start);
-  const endDate = toDate_(end);
-  if (startDate > endDate) {
-    throw new Error("start must be before end");
-  }
+    try {
+      const query = request.query;
+      const terms = searchTerms(query.q);
+      if (terms.length === 0) {
+        throw new Error(`q must contain a word of at least ${MIN_TERM_LENGTH} letters or digits`);
+      }
+      if (query.start && query.end) {
+        validateRange(query.start, query.end);
+      }
+      const entries = await options.storage.searchEntries(auth.userId, {
+        terms,
+        start: query.start,
+        end: query.end,
+        meal_type: query.meal_type ? normalizeMealType(query.meal_type, await mealTypesFor(auth.userId)) : undefined,
+        limit: query.limit,
+        offset: query.offset
+      });
+      return reply.send({ q: query.q, entries });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
 
-  const dates: string[] = [];
-  const current = new Date(startDate.getTime());
-  while (current <= endDate) {
-    dates.push(formatLocalDate_(current));
-    current.setDate(current.getDate() + 1);
-  }
-  return dates;
-}
+  app.get<{ Querystring: HistoryQuery }>("/history", { schema: routeSchemas.history }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
 
-function toDate_(value: string): Date {
-  const date = new Date(`${value}T00:00:00`);
-  if (Number.isNaN(date.getTime())) {
-    throw new Error("Invalid date format. Use YYYY-MM-DD");
-  }
-  return date;
-}
+    try {
+      const query = request.query;
+      const entryId = String(requireField(query, "entry_id"));
+      const revisions = await options.storage.listRevisions(auth.userId, entryId);
+      if (revisions.length === 0) {
+        return reply.status(404).send({ ok: false, error: "entry_id not found" });
+      }
+      return reply.send({ entry_id: entryId, revisions });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: DeleteRequest }>("/undo", { schema: routeSchemas.undo }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const entryId = String(requireField(payload, "entry_id"));
+      const result = await options.storage.undoEntry(auth.userId, entryId, new Date().toISOString());
+      if (result.status === "nothing_to_undo") {
+        return reply.status(404).send({ ok: false, error: "No changes to undo for entry_id" });
+      }
+      if (result.status === "conflict") {
+        return reply.status(409).send({ ok: false, error: "Entry no longer matches its last revision" });
+      }
 
-function formatLocalDate_(value: Date): string {
-  const year = value.getFullYear();
-  const month = String(value.getMonth() + 1).padStart(2, "0");
-  const day = String(value.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+      const date = normalizeDate((result.after || result.before)?.date);
+      const total = await options.storage.getTotal(auth.userId, date);
+      webhooks.emit(auth.userId, [
+        entryEvent_(result.before, result.after),
+        ...(await dailyTotalEvents(
+          auth.userId,
+          [result.before, result.after].flatMap((entry) => (entry ? [entry.date] : []))
+        ))
+      ]);
+      const budget = await dailyBudget(auth.userId, date, total);
+      return reply.send({
+        ok: true,
+        entry_id: entryId,
+        undone: result.revision.action,
+        entry: result.after,
+        date,
+        ...total,
+        ...budget
+      });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get("/settings", { schema: routeSchemas.getSettings }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const settings = await options.storage.getSettings(auth.userId);
+      return reply.send({
+        settings,
+        timezone: settings.timezone || defaultTimezone,
+        meal_types: settings.meal_types || DEFAULT_MEAL_TYPES,
+        review_threshold: settings.review_threshold ?? DEFAULT_REVIEW_THRESHOLD
+      });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: SettingsRequest }>("/settings", { schema: routeSchemas.updateSettings }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const updates = validateSettingsRequest(payload, await options.storage.getSettings(auth.userId));
+      const settings = await options.storage.updateSettings(auth.userId, { ...updates, updated_at: new Date().toISOString() });
+      return reply.send({ ok: true, settings });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: GoalsQuery }>("/goals", { schema: routeSchemas.listGoals }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const goals = await options.storage.listGoals(auth.userId);
+      const date = query.date ? normalizeDate(query.date) : dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+      return reply.send({ date, current: resolveGoal(goals, date), goals });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: GoalRequest }>("/goals", { schema: routeSchemas.setGoal }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const data = validateGoalRequest(payload);
+      const goal: Goal = { ...data, updated_at: new Date().toISOString() };
+      await options.storage.setGoal(auth.userId, goal);
+      return reply.send({ ok: true, goal });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { effective_from: string } }>("/goals/delete", { schema: routeSchemas.deleteGoal }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const effectiveFrom = normalizeDate(requireField(payload, "effective_from"));
+      const deleted = await options.storage.deleteGoal(auth.userId, effectiveFrom);
+      if (!deleted) {
+        return reply.status(404).send({ ok: false, error: "goal not found" });
+      }
+      return reply.send({ ok: true, effective_from: effectiveFrom });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: FoodsQuery }>("/foods", { schema: routeSchemas.listFoods }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const search = (query.q || "").toLowerCase().trim();
+      const foods = await options.storage.listFoods(auth.userId);
+      return reply.send({ foods: search ? foods.filter((food) => food.name.toLowerCase().includes(search)) : foods });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: FoodRequest }>("/foods", { schema: routeSchemas.createFood }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const data = validateFoodRequest(payload);
+      const food = await options.storage.createFood(auth.userId, { ...nutrientsOf(data), name: data.name, quantity: data.quantity || "" });
+      return reply.send({ ok: true, food });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: FoodUpdateRequest }>("/foods/update", { schema: routeSchemas.updateFood }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const foodId = String(requireField(payload, "food_id"));
+      const current = await options.storage.getFood(auth.userId, foodId);
+      if (!current) {
+        return reply.status(404).send({ ok: false, error: "food_id not found" });
+      }
+
+      const data = validateFoodRequest({ ...current, ...definedOnly_(payload.updates || {}) });
+      const food = await options.storage.updateFood(auth.userId, foodId, {
+        ...nutrientsOf(data),
+        name: data.name,
+        quantity: data.quantity || ""
+      });
+      return reply.send({ ok: true, food });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { food_id: string } }>("/foods/delete", { schema: routeSchemas.deleteFood }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const foodId = String(requireField(payload, "food_id"));
+      const deleted = await options.storage.deleteFood(auth.userId, foodId);
+      if (!deleted) {
+        return reply.status(404).send({ ok: false, error: "food_id not found" });
+      }
+      return reply.send({ ok: true, food_id: foodId });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get("/recipes", { schema: routeSchemas.listRecipes }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const recipes = await options.storage.listRecipes(auth.userId);
+      return reply.send({ recipes: recipes.map(withPerServing_) });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: RecipeRequest }>("/recipes", { schema: routeSchemas.createRecipe }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const recipe = await options.storage.createRecipe(auth.userId, validateRecipeRequest(payload));
+      return reply.send({ ok: true, recipe: withPerServing_(recipe) });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: RecipeUpdateRequest }>("/recipes/update", { schema: routeSchemas.updateRecipe }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const recipeId = String(requireField(payload, "recipe_id"));
+      const current = await options.storage.getRecipe(auth.userId, recipeId);
+      if (!current) {
+        return reply.status(404).send({ ok: false, error: "recipe_id not found" });
+      }
+
+      const data = validateRecipeRequest({ ...current, ...definedOnly_(payload.updates || {}) });
+      const recipe = await options.storage.updateRecipe(auth.userId, recipeId, data);
+      return reply.send({ ok: true, recipe: recipe ? withPerServing_(recipe) : null });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { recipe_id: string } }>("/recipes/delete", { schema: routeSchemas.deleteRecipe }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const recipeId = String(requireField(payload, "recipe_id"));
+      const deleted = await options.storage.deleteRecipe(auth.userId, recipeId);
+      if (!deleted) {
+        return reply.status(404).send({ ok: false, error: "recipe_id not found" });
+      }
+      return reply.send({ ok: true, recipe_id: recipeId });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: RangeQuery }>("/weights", { schema: routeSchemas.listWeights }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const start = normalizeDate(requireField(query, "start"));
+      const end = normalizeDate(requireField(query, "end"));
+      validateRange(start, end);
+      const weights = await options.storage.listWeights(auth.userId, start, end);
+      return reply.send({ start, end, weights });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: WeightRequest }>("/weights", { schema: routeSchemas.logWeight }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const data = validateWeightRequest(payload);
+      const weight = await options.storage.createWeight(auth.userId, { ...data, timestamp: new Date().toISOString() });
+      return reply.send({ ok: true, weight });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { weight_id: string } }>("/weights/delete", { schema: routeSchemas.deleteWeight }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const weightId = String(requireField(payload, "weight_id"));
+      const deleted = await options.storage.deleteWeight(auth.userId, weightId);
+      if (!deleted) {
+        return reply.status(404).send({ ok: false, error: "weight_id not found" });
+      }
+      return reply.send({ ok: true, weight_id: weightId });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: RangeQuery }>("/activities", { schema: routeSchemas.listActivities }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const start = normalizeDate(requireField(query, "start"));
+      const end = normalizeDate(requireField(query, "end"));
+      validateRange(start, end);
+      const activities = await options.storage.listActivities(auth.userId, start, end);
+      return reply.send({ start, end, activities });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: ActivityRequest; Querystring: TimeZoneQuery }>(
+    "/activities",
+    { schema: routeSchemas.logActivity },
+    async (request, reply) => {
+      const payload = request.body;
+      const auth = authCheck(request.headers as Record<string, string | undefined>);
+      if (!auth.ok) {
+        return reply.status(401).send(auth);
+      }
+
+      try {
+        const date = payload?.date || dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+        const data = validateActivityRequest({ ...payload, date });
+        const activity = await options.storage.createActivity(auth.userId, { ...data, timestamp: new Date().toISOString() });
+        return reply.send({ ok: true, activity });
+      } catch (err) {
+        return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  );
+
+  app.post<{ Body: ActivityUpdateRequest }>("/activities/update", { schema: routeSchemas.updateActivity }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const activityId = String(requireField(payload, "activity_id"));
+      const current = await options.storage.getActivity(auth.userId, activityId);
+      if (!current) {
+        return reply.status(404).send({ ok: false, error: "activity_id not found" });
+      }
+
+      const data = validateActivityRequest({ ...current, ...definedOnly_(payload.updates || {}) });
+      const activity = await options.storage.updateActivity(auth.userId, activityId, data);
+      return reply.send({ ok: true, activity });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { activity_id: string } }>("/activities/delete", { schema: routeSchemas.deleteActivity }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const activityId = String(requireField(payload, "activity_id"));
+      const deleted = await options.storage.deleteActivity(auth.userId, activityId);
+      if (!deleted) {
+        return reply.status(404).send({ ok: false, error: "activity_id not found" });
+      }
+      return reply.send({ ok: true, activity_id: activityId });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: TrendsQuery }>("/trends", { schema: routeSchemas.trends }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const { window, days } = query;
+      const end = query.end ? normalizeDate(query.end) : dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+      const start = query.start ? normalizeDate(query.start) : addDays(end, -(days - 1));
+      validateRange(start, end);
+
+      // Read history before `start` so the first reported days already have a settled trend and a full TDEE window.
+      const warmupStart = addDays(start, -(window - 1 + TREND_WARMUP_DAYS));
+      const weights = await options.storage.listWeights(auth.userId, warmupStart, end);
+      const totals = await options.storage.getTotalsRange(auth.userId, warmupStart, end);
+
+      const weighIns = new Map<string, number[]>();
+      for (const weight of weights) {
+        weighIns.set(weight.date, [...(weighIns.get(weight.date) || []), toKg(weight.weight, weight.unit)]);
+      }
+      const weightsKg = new Map(
+        Array.from(weighIns, ([date, values]) => [date, values.reduce((sum, value) => sum + value, 0) / values.length])
+      );
+      const intake = new Map(totals.filter((row) => row.total_calories > 0).map((row) => [row.date, row.total_calories]));
+      const unit: WeightUnit = query.unit || weights[weights.length - 1]?.unit || "kg";
+
+      const trendDays = computeTrends({ dates: enumerateDates(warmupStart, end), weightsKg, intake, window, unit }).filter(
+        (day) => day.date >= start
+      );
+      const withTrend = trendDays.filter((day) => day.trend !== null);
+      const first = withTrend[0];
+      const last = withTrend[withTrend.length - 1];
+      const logged = trendDays.filter((day) => day.calories !== null);
+      const spanDays = first && last ? enumerateDates(first.date, last.date).length - 1 : 0;
+      const change = first && last ? numberOrZero((last.trend as number) - (first.trend as number)) : null;
+
+      return reply.send({
+        start,
+        end,
+        unit,
+        window,
+        days: trendDays,
+        summary: {
+          trend: last ? last.trend : null,
+          change,
+          weekly_rate: change !== null && spanDays > 0 ? numberOrZero((change / spanDays) * 7) : null,
+          weigh_ins: trendDays.filter((day) => day.weight !== null).length,
+          logged_days: logged.length,
+          average_intake: logged.length
+            ? Math.round(logged.reduce((sum, day) => sum + (day.calories as number), 0) / logged.length)
+            : null,
+          tdee: trendDays[trendDays.length - 1]?.tdee ?? null
+        }
+      });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: AdherenceQuery }>("/report/adherence", { schema: routeSchemas.adherence }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const end = query.end ? normalizeDate(query.end) : dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+      const start = query.start ? normalizeDate(query.start) : addDays(end, -(query.days - 1));
+      validateRange(start, end);
+
+      const settings = await options.storage.getSettings(auth.userId);
+      const rule = validateLoggingRule(
+        {
+          require_meals:
+            typeof query.require_meals === "string"
+              ? (query.require_meals.split(",").map((meal) => meal.trim()).filter(Boolean) as MealType[])
+              : undefined,
+          min_calories: query.min_calories
+        },
+        settings.logging_rule || DEFAULT_LOGGING_RULE,
+        settings.meal_types || DEFAULT_MEAL_TYPES
+      );
+
+      const dates = enumerateDates(start, end);
+      const totals = await options.storage.getTotalsRange(auth.userId, start, end);
+      const meals = new Map<string, Set<string>>();
+      for await (const entry of options.storage.streamEntriesRange(auth.userId, start, end)) {
+        meals.set(entry.date, (meals.get(entry.date) || new Set()).add(entry.meal_type));
+      }
+      const goals = await options.storage.listGoals(auth.userId);
+      const calorieGoals = new Map<string, number>();
+      for (const date of dates) {
+        const goal = resolveGoal(goals, date);
+        if (goal) {
+          calorieGoals.set(date, goal.calories);
+        }
+      }
+
+      const report = computeAdherence({
+        dates,
+        calories: new Map(totals.map((row) => [row.date, row.total_calories])),
+        meals,
+        goals: calorieGoals,
+        mealTypes: (settings.meal_types || DEFAULT_MEAL_TYPES).map((mealType) => mealType.name),
+        rule,
+        tolerance: query.tolerance
+      });
+      return reply.send({ start, end, rule, tolerance: query.tolerance, ...report });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: ReviewQuery }>("/review", { schema: routeSchemas.reviewQueue }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const query = request.query;
+      const end = query.end ? normalizeDate(query.end) : dateInTimeZone(new Date(), await resolveTimeZone(request, auth.userId));
+      const start = query.start ? normalizeDate(query.start) : addDays(end, -(query.days - 1));
+      validateRange(start, end);
+
+      const threshold =
+        query.threshold ?? (await options.storage.getSettings(auth.userId)).review_threshold ?? DEFAULT_REVIEW_THRESHOLD;
+      const entries: Entry[] = [];
+      let count = 0;
+      let unconfirmedCalories = 0;
+      for await (const entry of options.storage.streamEntriesRange(auth.userId, start, end)) {
+        if (!needsReview(entry, threshold)) {
+          continue;
+        }
+        count += 1;
+        unconfirmedCalories += entry.calories;
+        if (entries.length < query.limit) {
+          entries.push(entry);
+        }
+      }
+      return reply.send({ start, end, threshold, count, unconfirmed_calories: numberOrZero(unconfirmedCalories), entries });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: ConfirmRequest }>("/review/confirm", { schema: routeSchemas.confirmEntry }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const { entry_id: entryId, ...corrections } = validateConfirmRequest(payload);
+      const reviewedAt = new Date().toISOString();
+      const change = await options.storage.updateEntry(
+        auth.userId,
+        entryId,
+        (currentEntry) => ({ ...nutrientsOf({ ...nutrientsOf(currentEntry), ...corrections }), reviewed_at: reviewedAt }),
+        { timestamp: reviewedAt, source: "review" }
+      );
+      if (!change) {
+        return reply.status(404).send({ ok: false, error: "entry_id not found" });
+      }
+
+      const date = change.after.date;
+      const total = await options.storage.getTotal(auth.userId, date);
+      webhooks.emit(auth.userId, [
+        { type: "entry.updated", data: change },
+        { type: "daily_total.changed", data: { date, ...total } }
+      ]);
+      const budget = await dailyBudget(auth.userId, date, total);
+      return reply.send({ ok: true, entry_id: entryId, date, ...total, ...budget, entry: change.after });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get("/webhooks", { schema: routeSchemas.listWebhooks }, async (request, reply) => {
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const saved = await options.storage.listWebhooks(auth.userId);
+      return reply.send({ webhooks: saved.map(({ secret: _secret, ...webhook }) => webhook) });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: WebhookRequest }>("/webhooks", { schema: routeSchemas.createWebhook }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const data = validateWebhookRequest(payload, options.allowPrivateWebhookUrls);
+      const webhook = await options.storage.createWebhook(auth.userId, {
+        ...data,
+        secret: generateWebhookSecret(),
+        created_at: new Date().toISOString()
+      });
+      return reply.send({ ok: true, webhook });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { webhook_id: string } }>("/webhooks/delete", { schema: routeSchemas.deleteWebhook }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const webhookId = String(requireField(payload, "webhook_id"));
+      const deleted = await options.storage.deleteWebhook(auth.userId, webhookId);
+      if (!deleted) {
+        return reply.status(404).send({ ok: false, error: "webhook_id not found" });
+      }
+      return reply.send({ ok: true, webhook_id: webhookId });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.post<{ Body: { webhook_id: string } }>("/webhooks/test", { schema: routeSchemas.testWebhook }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const webhookId = String(requireField(payload, "webhook_id"));
+      const webhook = (await options.storage.listWebhooks(auth.userId)).find((item) => item.webhook_id === webhookId);
+      if (!webhook) {
+        return reply.status(404).send({ ok: false, error: "webhook_id not found" });
+      }
+      const event = createWebhookEvent(TEST_EVENT_TYPE, { message: "Test delivery from the calorie logger" });
+      // A single attempt, so the caller sees the receiver's answer straight away.
+      const delivery = await webhooks.deliver(auth.userId, webhook, event, { retries: 0 });
+      return reply.send({ ok: delivery.status === "succeeded", delivery });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  app.get<{ Querystring: WebhookDeliveriesQuery }>(
+    "/webhooks/deliveries",
+    { schema: routeSchemas.listWebhookDeliveries },
+    async (request, reply) => {
+      const auth = authCheck(request.headers as Record<string, string | undefined>);
+      if (!auth.ok) {
+        return reply.status(401).send(auth);
+      }
+
+      try {
+        const query = request.query;
+        const deliveries = await options.storage.listDeliveries(auth.userId, query.webhook_id, query.limit);
+        return reply.send({ deliveries });
+      } catch (err) {
+        return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  );
+
+  app.post<{ Body: ReconcileRequest }>("/admin/reconcile", { schema: routeSchemas.reconcile }, async (request, reply) => {
+    const payload = request.body;
+    const auth = authCheck(request.headers as Record<string, string | undefined>);
+    if (!auth.ok) {
+      return reply.status(401).send(auth);
+    }
+
+    try {
+      const start = normalizeDate(requireField(payload, "start"));
+      const end = normalizeDate(requireField(payload, "end"));
+      const report = await reconcileTotals(options.storage, auth.userId, start, end, {
+        repair: payload.repair === true
+      });
+      return reply.send({ ok: true, ...report });
+    } catch (err) {
+      return reply.status(400).send({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  return app;
+}
+
+/** One `details` item per failed schema rule, naming the offending field the way the client sent it. */
+function validationDetail_(context: string | undefined, issue: NonNullable<FastifyError["validation"]>[number]) {
+  const path = issue.instancePath.split("/").filter(Boolean);
+  const params = issue.params as Record<string, unknown>;
+  if (typeof params.missingProperty === "string") {
+    path.push(params.missingProperty);
+  }
+  const message = Array.isArray(params.allowedValues)
+    ? `must be one of: ${params.allowedValues.join(", ")}`
+    : String(issue.message || "is invalid");
+  return {
+    in: context === "querystring" ? "query" : context || "body",
+    field: path.join(".") || context || "body",
+    message: typeof params.missingProperty === "string" ? "is required" : message
+  };
+}
+
+function mapMeals_<T>(meals: Record<string, Nutrients>, fn: (value: Nutrients) => T): Record<string, T> {
+  return Object.fromEntries(Object.entries(meals).map(([meal, value]) => [meal, fn(value)]));
+}
+
+function pickMacros_(value: Nutrients): Record<MacroField, number> {
+  return Object.fromEntries(MACRO_FIELDS.map((field) => [field, value[field]])) as Record<MacroField, number>;
+}
+
+function withPerServing_(recipe: Recipe) {
+  return { ...recipe, per_serving: recipeServingNutrients(recipe) };
+}
+
+/** The error for a create that failed part-way, saying how many entries were written before it. */
+function partialCreateError_(error: string, created: number, requested: number): string {
+  return created > 0 ? `${error}; ${created} of ${requested} entries were saved before the failure` : error;
+}
+
+/** The webhook event for an entry going from `before` to `after`; a missing side means it was created or deleted. */
+function entryEvent_(before: Entry | null, after: Entry | null) {
+  if (!before) {
+    return { type: "entry.created" as const, data: { entry: after } };
+  }
+  if (!after) {
+    return { type: "entry.deleted" as const, data: { entry: before } };
+  }
+  return { type: "entry.updated" as const, data: { before, after } };
+}
+
+/**
+ * Entry fields after applying `/update`-style `updates`, keeping the current value of anything left out. Changing
+ * calories or macros of a reviewed entry clears `reviewed_at`, since only `/review/confirm` vouches for new values.
+ */
+function applyUpdates_(currentEntry: Entry, updates: UpdateRequest["updates"]): Partial<EntryInput> {
+  const current = nutrientsOf(currentEntry);
+  const nutrients = nutrientsOf({ ...current, ...definedOnly_(updates) });
+  const nutrientsChanged = (Object.keys(nutrients) as Array<keyof Nutrients>).some(
+    (field) => nutrients[field] !== current[field]
+  );
+  return {
+    date: updates.date || normalizeDate(currentEntry.date),
+    meal_type: updates.meal_type || String(currentEntry.meal_type || ""),
+    item: typeof updates.item === "undefined" ? String(currentEntry.item || "") : updates.item,
+    quantity: typeof updates.quantity === "undefined" ? String(currentEntry.quantity || "") : updates.quantity,
+    ...nutrients,
+    ...(currentEntry.reviewed_at && nutrientsChanged ? { reviewed_at: null } : {}),
+    confidence: typeof updates.confidence === "undefined" ? numberOrZero(currentEntry.confidence) : numberOrZero(updates.confidence),
+    source: typeof updates.source === "undefined" ? String(currentEntry.source || "") : updates.source,
+    raw_text: typeof updates.raw_text === "undefined" ? String(currentEntry.raw_text || "") : updates.raw_text
+  };
+}
+
+function definedOnly_<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => typeof item !== "undefined")) as Partial<T>;
+}
+
+async function* exportLines_(rows: AsyncIterable<object>, columns: string[], format: string): AsyncGenerator<string> {
+  if (format === "csv") {
+    yield formatCsvRow(columns);
+  }
+  for await (const row of rows) {
+    const values = columns.map((column) => (row as Record<string, unknown>)[column]);
+    if (format === "csv") {
+      yield formatCsvRow(values);
+    } else {
+      yield `${JSON.stringify(Object.fromEntries(columns.map((column, index) => [column, values[index] ?? null])))}\n`;
+    }
+  }
 }
 
-function addDays_(value: Date, days: number): Date {
-  const date = new Date(value.getTime());
-  date.setDate(date.getDate() + days);
-  return date;
+async function* toAsyncIterable_<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
 }
@@ -0,0 +1,650 @@
+import { randomUUID } from "node:crypto";
+import Database from "better-sqlite3";
+import { addNutrients, fromDailyTotals, nutrientsOf, toDailyTotals } from "./lib.js";
+import { matchesSearch, searchTokens } from "./search.js";
+import {
+  checkCreateLimit,
+  compareRevisions,
+  entryTotalDeltas,
+  planEntryChanges,
+  planUndo,
+  toEntryPage,
+  type Activity,
+  type Entry,
+  type EntryCursor,
+  type EntryPage,
+  type Goal,
+  type IdempotencyRecord,
+  type Recipe,
+  type PageRequest,
+  type Revision,
+  type RevisionInput,
+  type SavedFood,
+  type StorageAdapter,
+  type UserSettings,
+  type Webhook,
+  type WebhookDelivery,
+  type WeightEntry
+} from "./storage.js";
+import type { Nutrients } from "./types.js";
+
+/**
+ * Schema changes in the order they were introduced. `PRAGMA user_version` records how many
+ * have been applied, so opening an existing database only runs the ones it is missing.
+ * Append new migrations; never edit one that has shipped.
+ *
+ * Tables keep the fields they are filtered or sorted by as columns and the full record as
+ * JSON in `data`, mirroring the Firestore documents.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE entries (
+    entry_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX entries_user_date ON entries (user_id, date, timestamp);
+
+  CREATE TABLE daily_totals (
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    total_calories REAL NOT NULL DEFAULT 0,
+    total_protein REAL NOT NULL DEFAULT 0,
+    total_carbs REAL NOT NULL DEFAULT 0,
+    total_fat REAL NOT NULL DEFAULT 0,
+    total_fiber REAL NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, date)
+  );
+
+  CREATE TABLE goals (
+    user_id TEXT NOT NULL,
+    effective_from TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, effective_from)
+  );
+
+  CREATE TABLE foods (
+    food_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX foods_user_name ON foods (user_id, name);
+
+  CREATE TABLE recipes (
+    recipe_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX recipes_user_name ON recipes (user_id, name);
+
+  CREATE TABLE revisions (
+    revision_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    entry_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX revisions_user_entry ON revisions (user_id, entry_id, timestamp);
+
+  CREATE TABLE weights (
+    weight_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX weights_user_date ON weights (user_id, date, timestamp);
+
+  CREATE TABLE settings (
+    user_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  `,
+  `
+  DROP INDEX entries_user_date;
+  CREATE INDEX entries_user_listing ON entries (user_id, date, timestamp DESC, entry_id DESC);
+  `,
+  `
+  CREATE TABLE activities (
+    activity_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX activities_user_date ON activities (user_id, date, timestamp);
+  `,
+  `
+  CREATE TABLE webhooks (
+    webhook_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX webhooks_user ON webhooks (user_id, created_at);
+
+  CREATE TABLE webhook_deliveries (
+    delivery_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    webhook_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX webhook_deliveries_user ON webhook_deliveries (user_id, timestamp);
+  CREATE INDEX webhook_deliveries_webhook ON webhook_deliveries (user_id, webhook_id, timestamp);
+  `,
+  `
+  CREATE TABLE idempotency_keys (
+    user_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, key)
+  );
+  CREATE INDEX idempotency_keys_expiry ON idempotency_keys (expires_at);
+  `
+];
+
+const STREAM_PAGE_SIZE = 500;
+
+/** Brings the schema up to date and returns the resulting schema version. */
+export function migrate(db: Database.Database): number {
+  const current = Number(db.pragma("user_version", { simple: true }));
+  if (current > MIGRATIONS.length) {
+    throw new Error(`Database schema version ${current} is newer than this build supports (${MIGRATIONS.length})`);
+  }
+  const apply = db.transaction(() => {
+    for (let version = current; version < MIGRATIONS.length; version += 1) {
+      db.exec(MIGRATIONS[version]);
+    }
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  });
+  apply();
+  return MIGRATIONS.length;
+}
+
+/**
+ * Stores everything in a single SQLite file (or `:memory:`). better-sqlite3 is synchronous, so
+ * every entry write runs inside one SQLite transaction with its totals and revision.
+ */
+export function createSqliteStorage(filename: string): StorageAdapter {
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  migrate(db);
+
+  function selectDocument<T>(sql: string, ...params: unknown[]): T | null {
+    const row = db.prepare(sql).get(...params) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  function selectDocuments<T>(sql: string, ...params: unknown[]): T[] {
+    const rows = db.prepare(sql).all(...params) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data) as T);
+  }
+
+  function selectEntry(userId: string, entryId: string) {
+    return selectDocument<Entry>("SELECT data FROM entries WHERE user_id = ? AND entry_id = ?", userId, entryId);
+  }
+
+  function adjustTotals(userId: string, deltas: Map<string, Nutrients>) {
+    for (const [date, delta] of deltas) {
+      const current = db
+        .prepare("SELECT * FROM daily_totals WHERE user_id = ? AND date = ?")
+        .get(userId, date) as Record<string, unknown> | undefined;
+      writeTotal(userId, date, addNutrients(fromDailyTotals(current || {}), delta));
+    }
+  }
+
+  function writeTotal(userId: string, date: string, totals: Nutrients) {
+    db.prepare(
+      `INSERT INTO daily_totals (user_id, date, total_calories, total_protein, total_carbs, total_fat, total_fiber)
+       VALUES (@user_id, @date, @total_calories, @total_protein, @total_carbs, @total_fat, @total_fiber)
+       ON CONFLICT (user_id, date) DO UPDATE SET
+         total_calories = excluded.total_calories,
+         total_protein = excluded.total_protein,
+         total_carbs = excluded.total_carbs,
+         total_fat = excluded.total_fat,
+         total_fiber = excluded.total_fiber`
+    ).run({ user_id: userId, date, ...toDailyTotals(totals) });
+  }
+
+  /** Moves an entry from `before` to `after`, adjusting daily totals; a null `after` deletes it. */
+  function writeEntryState(userId: string, entryId: string, before: Entry | null, after: Entry | null) {
+    if (after) {
+      // An upsert rather than INSERT OR REPLACE keeps the rowid, and with it the entry's place among ties.
+      db.prepare(
+        `INSERT INTO entries (entry_id, user_id, date, timestamp, data) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (entry_id) DO UPDATE SET date = excluded.date, timestamp = excluded.timestamp, data = excluded.data`
+      ).run(entryId, userId, after.date, after.timestamp, JSON.stringify(after));
+    } else {
+      db.prepare("DELETE FROM entries WHERE user_id = ? AND entry_id = ?").run(userId, entryId);
+    }
+    adjustTotals(userId, entryTotalDeltas(before ? [before] : [], after ? [after] : []));
+  }
+
+  function writeRevision(userId: string, revision: RevisionInput) {
+    const saved: Revision = { ...revision, revision_id: randomUUID() };
+    db.prepare("INSERT INTO revisions (revision_id, user_id, entry_id, timestamp, data) VALUES (?, ?, ?, ?, ?)").run(
+      saved.revision_id,
+      userId,
+      saved.entry_id,
+      saved.timestamp,
+      JSON.stringify(saved)
+    );
+  }
+
+  /** A page in `compareEntries` order, resuming after `page.cursor` when given. */
+  function listEntriesRange(userId: string, start: string, end: string, page: PageRequest): EntryPage {
+    const { cursor } = page;
+    const after = cursor
+      ? {
+          sql: "AND (date > ? OR (date = ? AND (timestamp < ? OR (timestamp = ? AND entry_id < ?))))",
+          params: [cursor.date, cursor.date, cursor.timestamp, cursor.timestamp, cursor.entry_id]
+        }
+      : { sql: "", params: [] };
+    const entries = selectDocuments<Entry>(
+      `SELECT data FROM entries WHERE user_id = ? AND date >= ? AND date <= ? ${after.sql}
+       ORDER BY date ASC, timestamp DESC, entry_id DESC LIMIT ? OFFSET ?`,
+      userId,
+      start,
+      end,
+      ...after.params,
+      page.limit + 1,
+      cursor ? 0 : page.offset || 0
+    );
+    return toEntryPage(entries, page.limit);
+  }
+
+  return {
+    async createEntries(userId, entries, meta) {
+      checkCreateLimit(entries);
+      return db.transaction(() => {
+        const created: Entry[] = entries.map((entry) => ({ ...entry, entry_id: randomUUID() }));
+        created.forEach((entry, sequence) => {
+          db.prepare("INSERT INTO entries (entry_id, user_id, date, timestamp, data) VALUES (?, ?, ?, ?, ?)").run(
+            entry.entry_id,
+            userId,
+            entry.date,
+            entry.timestamp,
+            JSON.stringify(entry)
+          );
+          writeRevision(userId, { entry_id: entry.entry_id, action: "create", before: null, after: entry, ...meta, sequence });
+        });
+        adjustTotals(userId, entryTotalDeltas([], created));
+        return created;
+      })();
+    },
+    async getEntry(userId, entryId) {
+      return selectEntry(userId, entryId);
+    },
+    async updateEntry(userId, entryId, change, meta) {
+      return db.transaction(() => {
+        const before = selectEntry(userId, entryId);
+        if (!before) {
+          return null;
+        }
+        const after: Entry = { ...before, ...change(before), entry_id: entryId };
+        writeEntryState(userId, entryId, before, after);
+        writeRevision(userId, { entry_id: entryId, action: "update", before, after, ...meta, sequence: 0 });
+        return { before, after };
+      })();
+    },
+    async deleteEntry(userId, entryId, meta) {
+      return db.transaction(() => {
+        const before = selectEntry(userId, entryId);
+        if (!before) {
+          return null;
+        }
+        writeEntryState(userId, entryId, before, null);
+        writeRevision(userId, { entry_id: entryId, action: "delete", before, after: null, ...meta, sequence: 0 });
+        return before;
+      })();
+    },
+    async applyEntryChanges(userId, mutations, meta) {
+      return db.transaction(() => {
+        const current = new Map(
+          Array.from(new Set(mutations.map((mutation) => mutation.entry_id)), (entryId) => [entryId, selectEntry(userId, entryId)])
+        );
+        const result = planEntryChanges(mutations, current);
+        if (result.status !== "applied") {
+          return result;
+        }
+        result.changes.forEach((change, sequence) => {
+          writeEntryState(userId, change.entry_id, change.before, change.after);
+          writeRevision(userId, { ...change, action: change.after ? "update" : "delete", ...meta, sequence });
+        });
+        return result;
+      })();
+    },
+    async undoEntry(userId, entryId, undoneAt) {
+      return db.transaction(() => {
+        const revisions = selectDocuments<Revision>(
+          "SELECT data FROM revisions WHERE user_id = ? AND entry_id = ? ORDER BY timestamp ASC, rowid ASC",
+          userId,
+          entryId
+        );
+        const result = planUndo(revisions.sort(compareRevisions), selectEntry(userId, entryId));
+        if (result.status !== "undone") {
+          return result;
+        }
+        writeEntryState(userId, entryId, result.before, result.after);
+        const revision: Revision = { ...result.revision, undone_at: undoneAt };
+        db.prepare("UPDATE revisions SET data = ? WHERE revision_id = ?").run(JSON.stringify(revision), revision.revision_id);
+        return { ...result, revision };
+      })();
+    },
+    async listEntries(userId, date, page) {
+      return listEntriesRange(userId, date, date, page);
+    },
+    async listEntriesRange(userId, start, end, page) {
+      return listEntriesRange(userId, start, end, page);
+    },
+    async *streamEntriesRange(userId, start, end) {
+      // Reads page by page instead of holding a statement open across yields, so
+      // other requests can write to the connection while a stream is in progress.
+      let cursor: EntryCursor | undefined;
+      while (true) {
+        const page = listEntriesRange(userId, start, end, { limit: STREAM_PAGE_SIZE, cursor });
+        yield* page.entries;
+        if (!page.next_cursor) {
+          return;
+        }
+        cursor = page.next_cursor;
+      }
+    },
+    async searchEntries(userId, search) {
+      const rows = db
+        .prepare(
+          `SELECT data FROM entries WHERE user_id = ? AND date >= ? AND date <= ?
+           ORDER BY date DESC, timestamp DESC, rowid ASC`
+        )
+        .iterate(userId, search.start || "0000-01-01", search.end || "9999-12-31") as Iterable<{ data: string }>;
+      const results: Entry[] = [];
+      let skipped = 0;
+      for (const row of rows) {
+        const entry = JSON.parse(row.data) as Entry;
+        if ((search.meal_type && entry.meal_type !== search.meal_type) || !matchesSearch(searchTokens(entry), search.terms)) {
+          continue;
+        }
+        if (skipped < search.offset) {
+          skipped += 1;
+          continue;
+        }
+        results.push(entry);
+        if (results.length >= search.limit) {
+          break;
+        }
+      }
+      return results;
+    },
+    async backfillSearchTokens() {
+      return 0;
+    },
+    async adoptLegacyData() {
+      // Every row has had a user_id since the first migration.
+      return { entries: 0, totals: 0 };
+    },
+    async setTotal(userId, date, totals) {
+      writeTotal(userId, date, nutrientsOf(totals));
+    },
+    async getTotal(userId, date) {
+      const row = db.prepare("SELECT * FROM daily_totals WHERE user_id = ? AND date = ?").get(userId, date) as
+        | Record<string, unknown>
+        | undefined;
+      return toDailyTotals(fromDailyTotals(row || {}));
+    },
+    async getTotalsRange(userId, start, end) {
+      const rows = db
+        .prepare("SELECT * FROM daily_totals WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date ASC")
+        .all(userId, start, end) as Record<string, unknown>[];
+      return rows.map((row) => ({ date: String(row.date), ...toDailyTotals(fromDailyTotals(row)) }));
+    },
+    async setGoal(userId, goal) {
+      db.prepare(
+        `INSERT INTO goals (user_id, effective_from, data) VALUES (?, ?, ?)
+         ON CONFLICT (user_id, effective_from) DO UPDATE SET data = excluded.data`
+      ).run(userId, goal.effective_from, JSON.stringify(goal));
+    },
+    async listGoals(userId) {
+      return selectDocuments<Goal>("SELECT data FROM goals WHERE user_id = ? ORDER BY effective_from ASC", userId);
+    },
+    async deleteGoal(userId, effectiveFrom) {
+      return db.prepare("DELETE FROM goals WHERE user_id = ? AND effective_from = ?").run(userId, effectiveFrom).changes > 0;
+    },
+    async createFood(userId, food) {
+      const now = new Date().toISOString();
+      const saved: SavedFood = { ...food, food_id: randomUUID(), created_at: now, updated_at: now };
+      db.prepare("INSERT INTO foods (food_id, user_id, name, data) VALUES (?, ?, ?, ?)").run(
+        saved.food_id,
+        userId,
+        saved.name,
+        JSON.stringify(saved)
+      );
+      return saved;
+    },
+    async getFood(userId, foodId) {
+      return selectDocument<SavedFood>("SELECT data FROM foods WHERE user_id = ? AND food_id = ?", userId, foodId);
+    },
+    async updateFood(userId, foodId, updates) {
+      return db.transaction(() => {
+        const current = selectDocument<SavedFood>("SELECT data FROM foods WHERE user_id = ? AND food_id = ?", userId, foodId);
+        if (!current) {
+          return null;
+        }
+        const saved: SavedFood = { ...current, ...updates, food_id: foodId, updated_at: new Date().toISOString() };
+        db.prepare("UPDATE foods SET name = ?, data = ? WHERE food_id = ?").run(saved.name, JSON.stringify(saved), foodId);
+        return saved;
+      })();
+    },
+    async deleteFood(userId, foodId) {
+      return db.prepare("DELETE FROM foods WHERE user_id = ? AND food_id = ?").run(userId, foodId).changes > 0;
+    },
+    async listFoods(userId) {
+      return selectDocuments<SavedFood>("SELECT data FROM foods WHERE user_id = ? ORDER BY name ASC", userId);
+    },
+    async createRecipe(userId, recipe) {
+      const now = new Date().toISOString();
+      const saved: Recipe = { ...recipe, recipe_id: randomUUID(), created_at: now, updated_at: now };
+      db.prepare("INSERT INTO recipes (recipe_id, user_id, name, data) VALUES (?, ?, ?, ?)").run(
+        saved.recipe_id,
+        userId,
+        saved.name,
+        JSON.stringify(saved)
+      );
+      return saved;
+    },
+    async getRecipe(userId, recipeId) {
+      return selectDocument<Recipe>("SELECT data FROM recipes WHERE user_id = ? AND recipe_id = ?", userId, recipeId);
+    },
+    async updateRecipe(userId, recipeId, updates) {
+      return db.transaction(() => {
+        const current = selectDocument<Recipe>(
+          "SELECT data FROM recipes WHERE user_id = ? AND recipe_id = ?",
+          userId,
+          recipeId
+        );
+        if (!current) {
+          return null;
+        }
+        const saved: Recipe = { ...current, ...updates, recipe_id: recipeId, updated_at: new Date().toISOString() };
+        db.prepare("UPDATE recipes SET name = ?, data = ? WHERE recipe_id = ?").run(saved.name, JSON.stringify(saved), recipeId);
+        return saved;
+      })();
+    },
+    async deleteRecipe(userId, recipeId) {
+      return db.prepare("DELETE FROM recipes WHERE user_id = ? AND recipe_id = ?").run(userId, recipeId).changes > 0;
+    },
+    async listRecipes(userId) {
+      return selectDocuments<Recipe>("SELECT data FROM recipes WHERE user_id = ? ORDER BY name ASC", userId);
+    },
+    async listRevisions(userId, entryId) {
+      return selectDocuments<Revision>(
+        "SELECT data FROM revisions WHERE user_id = ? AND entry_id = ? ORDER BY timestamp ASC, rowid ASC",
+        userId,
+        entryId
+      ).sort(compareRevisions);
+    },
+    async createWeight(userId, weight) {
+      const saved: WeightEntry = { ...weight, weight_id: randomUUID() };
+      db.prepare("INSERT INTO weights (weight_id, user_id, date, timestamp, data) VALUES (?, ?, ?, ?, ?)").run(
+        saved.weight_id,
+        userId,
+        saved.date,
+        saved.timestamp,
+        JSON.stringify(saved)
+      );
+      return saved;
+    },
+    async listWeights(userId, start, end) {
+      return selectDocuments<WeightEntry>(
+        "SELECT data FROM weights WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date ASC, timestamp ASC",
+        userId,
+        start,
+        end
+      );
+    },
+    async deleteWeight(userId, weightId) {
+      return db.prepare("DELETE FROM weights WHERE user_id = ? AND weight_id = ?").run(userId, weightId).changes > 0;
+    },
+    async createActivity(userId, activity) {
+      const saved: Activity = { ...activity, activity_id: randomUUID(), updated_at: activity.timestamp };
+      db.prepare("INSERT INTO activities (activity_id, user_id, date, timestamp, data) VALUES (?, ?, ?, ?, ?)").run(
+        saved.activity_id,
+        userId,
+        saved.date,
+        saved.timestamp,
+        JSON.stringify(saved)
+      );
+      return saved;
+    },
+    async getActivity(userId, activityId) {
+      return selectDocument<Activity>("SELECT data FROM activities WHERE user_id = ? AND activity_id = ?", userId, activityId);
+    },
+    async updateActivity(userId, activityId, updates) {
+      return db.transaction(() => {
+        const current = selectDocument<Activity>(
+          "SELECT data FROM activities WHERE user_id = ? AND activity_id = ?",
+          userId,
+          activityId
+        );
+        if (!current) {
+          return null;
+        }
+        const saved: Activity = { ...current, ...updates, activity_id: activityId, updated_at: new Date().toISOString() };
+        db.prepare("UPDATE activities SET date = ?, timestamp = ?, data = ? WHERE activity_id = ?").run(
+          saved.date,
+          saved.timestamp,
+          JSON.stringify(saved),
+          activityId
+        );
+        return saved;
+      })();
+    },
+    async deleteActivity(userId, activityId) {
+      return db.prepare("DELETE FROM activities WHERE user_id = ? AND activity_id = ?").run(userId, activityId).changes > 0;
+    },
+    async listActivities(userId, start, end) {
+      return selectDocuments<Activity>(
+        "SELECT data FROM activities WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date ASC, timestamp ASC",
+        userId,
+        start,
+        end
+      );
+    },
+    async createWebhook(userId, webhook) {
+      const saved: Webhook = { ...webhook, webhook_id: randomUUID() };
+      db.prepare("INSERT INTO webhooks (webhook_id, user_id, created_at, data) VALUES (?, ?, ?, ?)").run(
+        saved.webhook_id,
+        userId,
+        saved.created_at,
+        JSON.stringify(saved)
+      );
+      return saved;
+    },
+    async listWebhooks(userId) {
+      return selectDocuments<Webhook>("SELECT data FROM webhooks WHERE user_id = ? ORDER BY created_at ASC, rowid ASC", userId);
+    },
+    async deleteWebhook(userId, webhookId) {
+      return db.prepare("DELETE FROM webhooks WHERE user_id = ? AND webhook_id = ?").run(userId, webhookId).changes > 0;
+    },
+    async recordDelivery(userId, delivery) {
+      const saved: WebhookDelivery = { ...delivery, delivery_id: randomUUID() };
+      db.prepare(
+        "INSERT INTO webhook_deliveries (delivery_id, user_id, webhook_id, timestamp, data) VALUES (?, ?, ?, ?, ?)"
+      ).run(saved.delivery_id, userId, saved.webhook_id, saved.timestamp, JSON.stringify(saved));
+      return saved;
+    },
+    async listDeliveries(userId, webhookId, limit) {
+      return webhookId
+        ? selectDocuments<WebhookDelivery>(
+            "SELECT data FROM webhook_deliveries WHERE user_id = ? AND webhook_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?",
+            userId,
+            webhookId,
+            limit
+          )
+        : selectDocuments<WebhookDelivery>(
+            "SELECT data FROM webhook_deliveries WHERE user_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?",
+            userId,
+            limit
+          );
+    },
+    async claimIdempotencyKey(userId, record) {
+      return db.transaction(() => {
+        // Expired keys are never read again, so clearing them here keeps the table from growing.
+        db.prepare("DELETE FROM idempotency_keys WHERE expires_at <= ?").run(record.created_at);
+        const existing = selectDocument<IdempotencyRecord>(
+          "SELECT data FROM idempotency_keys WHERE user_id = ? AND key = ?",
+          userId,
+          record.key
+        );
+        if (existing) {
+          return existing;
+        }
+        db.prepare("INSERT INTO idempotency_keys (user_id, key, expires_at, data) VALUES (?, ?, ?, ?)").run(
+          userId,
+          record.key,
+          record.expires_at,
+          JSON.stringify(record)
+        );
+        return null;
+      })();
+    },
+    async completeIdempotencyKey(userId, key, response, expiresAt) {
+      db.transaction(() => {
+        const record = selectDocument<IdempotencyRecord>(
+          "SELECT data FROM idempotency_keys WHERE user_id = ? AND key = ?",
+          userId,
+          key
+        );
+        if (record) {
+          db.prepare("UPDATE idempotency_keys SET expires_at = ?, data = ? WHERE user_id = ? AND key = ?").run(
+            expiresAt,
+            JSON.stringify({ ...record, response, expires_at: expiresAt }),
+            userId,
+            key
+          );
+        }
+      })();
+    },
+    async releaseIdempotencyKey(userId, key) {
+      db.prepare("DELETE FROM idempotency_keys WHERE user_id = ? AND key = ?").run(userId, key);
+    },
+    async getSettings(userId) {
+      return selectDocument<UserSettings>("SELECT data FROM settings WHERE user_id = ?", userId) || {};
+    },
+    async updateSettings(userId, updates) {
+      return db.transaction(() => {
+        const current = selectDocument<UserSettings>("SELECT data FROM settings WHERE user_id = ?", userId) || {};
+        const saved: UserSettings = { ...current, ...updates };
+        db.prepare(
+          "INSERT INTO settings (user_id, data) VALUES (?, ?) ON CONFLICT (user_id) DO UPDATE SET data = excluded.data"
+        ).run(userId, JSON.stringify(saved));
+        return saved;
+      })();
+    }
+  };
+}
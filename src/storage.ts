@@ -1,5 +1,15 @@
-import { Firestore, FieldValue } from "@google-cloud/firestore";
-import { numberOrZero } from "./lib.js";
+import { createHash } from "node:crypto";
+import {
+  Firestore,
+  FieldValue,
+  FieldPath,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+  type Transaction
+} from "@google-cloud/firestore";
+import { addNutrients, fromDailyTotals, isZeroNutrients, nutrientsOf, toDailyTotals } from "./lib.js";
+import { matchesSearch, searchTokens } from "./search.js";
+import type { DailyTotals, GoalRequest, Nutrients, SettingsRequest, WebhookEventType, WeightUnit } from "./types.js";
 
 export interface EntryInput {
   timestamp: string;
@@ -8,180 +18,1477 @@ export interface EntryInput {
   item: string;
   quantity: string;
   calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
   confidence: number;
   source: string;
   raw_text: string;
+  /** Saved food the entry was logged from; its values are copied, not linked. */
+  food_id?: string;
+  /** Recipe the entry was logged from; its values are copied, not linked. */
+  recipe_id?: string;
+  /**
+   * When the user confirmed or corrected the estimate; such entries leave the review queue. Null once calories or
+   * macros were edited elsewhere afterwards, which puts the entry back in the queue.
+   */
+  reviewed_at?: string | null;
 }
 
 export interface Entry extends EntryInput {
   entry_id: string;
 }
 
+export interface DailyTotalRow extends DailyTotals {
+  date: string;
+}
+
+export interface Goal extends GoalRequest {
+  updated_at: string;
+}
+
+export interface FoodInput extends Nutrients {
+  name: string;
+  quantity: string;
+}
+
+export interface SavedFood extends FoodInput {
+  food_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecipeIngredientInput extends Nutrients {
+  name: string;
+  quantity: string;
+}
+
+export interface RecipeInput {
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredientInput[];
+}
+
+export interface Recipe extends RecipeInput {
+  recipe_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserSettings extends SettingsRequest {
+  updated_at?: string;
+}
+
+export interface WeightInput {
+  date: string;
+  weight: number;
+  unit: WeightUnit;
+  timestamp: string;
+}
+
+export interface WeightEntry extends WeightInput {
+  weight_id: string;
+}
+
+export interface ActivityInput {
+  date: string;
+  name: string;
+  duration_minutes: number;
+  calories_burned: number;
+  source: string;
+  timestamp: string;
+}
+
+export interface Activity extends ActivityInput {
+  activity_id: string;
+  updated_at: string;
+}
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEventType[];
+  /** Key for the HMAC signature on every delivery; only returned when the webhook is created. */
+  secret: string;
+  created_at: string;
+}
+
+export interface Webhook extends WebhookInput {
+  webhook_id: string;
+}
+
+/** Outcome of delivering one event to one webhook, after any retries. */
+export interface WebhookDeliveryInput {
+  webhook_id: string;
+  event_id: string;
+  event_type: string;
+  url: string;
+  status: "succeeded" | "failed";
+  attempts: number;
+  /** HTTP status of the last attempt; null when it got no response. */
+  response_status: number | null;
+  error: string | null;
+  timestamp: string;
+  completed_at: string;
+}
+
+export interface WebhookDelivery extends WebhookDeliveryInput {
+  delivery_id: string;
+}
+
+/** A response kept so repeats of a request sent with the same `Idempotency-Key` get it again. */
+export interface StoredResponse {
+  status_code: number;
+  content_type: string;
+  body: string;
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  /** Fingerprint of the method, URL and body the key was first used with. */
+  request_hash: string;
+  /** Null while the first request is still being handled. */
+  response: StoredResponse | null;
+  created_at: string;
+  /** When the key may be used again. */
+  expires_at: string;
+}
+
+export type RevisionAction = "create" | "update" | "delete";
+
+/** Before/after snapshot of a single entry change; `before` is null for creates and `after` for deletes. */
+export interface RevisionInput {
+  entry_id: string;
+  action: RevisionAction;
+  before: Entry | null;
+  after: Entry | null;
+  timestamp: string;
+  source: string;
+  /**
+   * Position among the revisions written by one request, which all share its `timestamp`, so a batch that
+   * changes an entry twice keeps its order. Missing on revisions written before it was added; read as 0.
+   */
+  sequence: number;
+}
+
+export interface Revision extends RevisionInput {
+  revision_id: string;
+  undone_at?: string;
+}
+
+/** Timestamp and route recorded on the revisions written alongside an entry change. */
+export interface RevisionMeta {
+  timestamp: string;
+  source: string;
+}
+
+export interface EntryChange {
+  before: Entry;
+  after: Entry;
+}
+
+/** What `adoptLegacyData` moved to the user. */
+export interface LegacyMigration {
+  entries: number;
+  totals: number;
+}
+
+/**
+ * Outcome of `undoEntry`: `nothing_to_undo` when every revision is already undone, `conflict` when the
+ * entry no longer matches its latest revision, otherwise the reverted revision and the entry's states.
+ */
+export type UndoResult =
+  | { status: "nothing_to_undo" }
+  | { status: "conflict" }
+  | { status: "undone"; revision: Revision; before: Entry | null; after: Entry | null };
+
+/** One operation of an `applyEntryChanges` batch: `change` works as in `updateEntry`, and null deletes the entry. */
+export interface EntryMutation {
+  entry_id: string;
+  change: ((current: Entry) => Partial<EntryInput>) | null;
+}
+
+export interface BatchEntryChange {
+  entry_id: string;
+  before: Entry;
+  after: Entry | null;
+}
+
+/**
+ * Outcome of `applyEntryChanges`: nothing is written when any entry is missing, otherwise one change per mutation.
+ * `indexes` are the mutations that found their entry missing, including one deleted by an earlier mutation.
+ */
+export type BatchResult =
+  | { status: "not_found"; entry_ids: string[]; indexes: number[] }
+  | { status: "applied"; changes: BatchEntryChange[] };
+
+/** Position of an entry in listing order; `listEntries` and `listEntriesRange` resume just after it. */
+export interface EntryCursor {
+  date: string;
+  timestamp: string;
+  entry_id: string;
+}
+
+/** `cursor` resumes after an earlier page; `offset` skips entries instead and is kept for older clients. */
+export interface PageRequest {
+  limit: number;
+  offset?: number;
+  cursor?: EntryCursor;
+}
+
+export interface EntryPage {
+  entries: Entry[];
+  /** Cursor of the page's last entry, or null when no entries follow. */
+  next_cursor: EntryCursor | null;
+}
+
+export interface EntrySearch {
+  /** Terms from `searchTerms`; an entry matches when every term starts a word of its `item` or `raw_text`. */
+  terms: string[];
+  start?: string;
+  end?: string;
+  meal_type?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface FirestoreCollections {
+  entries: string;
+  totals: string;
+  goals: string;
+  foods: string;
+  recipes: string;
+  revisions: string;
+  weights: string;
+  activities: string;
+  webhooks: string;
+  webhookDeliveries: string;
+  idempotencyKeys: string;
+  settings: string;
+}
+
+/**
+ * Every method is scoped to a single user; entries and daily totals belonging to
+ * other users are never visible through the adapter.
+ *
+ * Entry writes are single operations: each one changes the entries, the daily
+ * totals they contribute to and the revision log together, so a failed or
+ * concurrent request cannot leave totals out of step with entries.
+ */
 export interface StorageAdapter {
-  createEntries(entries: EntryInput[]): Promise<Entry[]>;
-  getEntry(entryId: string): Promise<Entry | null>;
-  updateEntry(entryId: string, updates: Partial<EntryInput> & { date: string; meal_type: string }): Promise<void>;
-  deleteEntry(entryId: string): Promise<Entry | null>;
-  listEntries(date: string, limit: number, offset: number): Promise<Entry[]>;
-  listEntriesRange(start: string, end: string, limit: number, offset: number): Promise<Entry[]>;
-  incrementTotal(date: string, delta: number): Promise<void>;
-  getTotal(date: string): Promise<number>;
-  getTotalsRange(start: string, end: string): Promise<Array<{ date: string; total_calories: number }>>;
-}
-
-export function createFirestoreStorage(entriesCollection: string, totalsCollection: string): StorageAdapter {
+  /**
+   * Creates entries, adds them to their daily totals and records `create` revisions. Rejects more than
+   * `MAX_CREATE_ENTRIES` entries, so the whole call is written at once or not at all; split larger requests
+   * with `chunkEntriesByDate`.
+   */
+  createEntries(userId: string, entries: EntryInput[], meta: RevisionMeta): Promise<Entry[]>;
+  getEntry(userId: string, entryId: string): Promise<Entry | null>;
+  /**
+   * Applies `change` to the entry's current state and writes the result, the daily total adjustment and an
+   * `update` revision. `change` may run again if a concurrent write forces a retry, so it must not have side
+   * effects; an error thrown from it aborts the write. Returns null when the entry does not exist.
+   */
+  updateEntry(
+    userId: string,
+    entryId: string,
+    change: (current: Entry) => Partial<EntryInput>,
+    meta: RevisionMeta
+  ): Promise<EntryChange | null>;
+  /** Deletes the entry, subtracts it from its daily total and records a `delete` revision. */
+  deleteEntry(userId: string, entryId: string, meta: RevisionMeta): Promise<Entry | null>;
+  /**
+   * Applies every mutation in order as one write, recording an `update` or `delete` revision for each. A later
+   * mutation of the same entry sees the result of the earlier one. Either all mutations are written or none.
+   */
+  applyEntryChanges(userId: string, mutations: EntryMutation[], meta: RevisionMeta): Promise<BatchResult>;
+  /** Reverts the entry's latest revision that is not yet undone, adjusting totals and marking the revision undone. */
+  undoEntry(userId: string, entryId: string, undoneAt: string): Promise<UndoResult>;
+  /** A page of the date's entries in `compareEntries` order. */
+  listEntries(userId: string, date: string, page: PageRequest): Promise<EntryPage>;
+  /** A page of the range's entries in `compareEntries` order. */
+  listEntriesRange(userId: string, start: string, end: string, page: PageRequest): Promise<EntryPage>;
+  /** Yields every entry in the range in `listEntriesRange` order, reading in pages rather than all at once. */
+  streamEntriesRange(userId: string, start: string, end: string): AsyncIterable<Entry>;
+  /** Matching entries, newest first (by date, then timestamp). */
+  searchEntries(userId: string, search: EntrySearch): Promise<Entry[]>;
+  /**
+   * Rewrites stored search tokens for every user's entries that lack them or were indexed differently,
+   * returning how many entries changed. Adapters that tokenise at query time have nothing to do.
+   */
+  backfillSearchTokens(): Promise<number>;
+  /**
+   * Gives data written before multi-user support to `userId`: sets `user_id` on entries that have none and
+   * folds unowned daily totals (keyed by date alone) into the user's totals. Safe to re-run; adapters that
+   * never stored unowned data have nothing to do.
+   */
+  adoptLegacyData(userId: string): Promise<LegacyMigration>;
+  /** Overwrites the stored total for a date, e.g. after recomputing it from entries. */
+  setTotal(userId: string, date: string, totals: Nutrients): Promise<void>;
+  getTotal(userId: string, date: string): Promise<DailyTotals>;
+  getTotalsRange(userId: string, start: string, end: string): Promise<DailyTotalRow[]>;
+  /** Stores a goal, replacing any existing goal with the same `effective_from`. */
+  setGoal(userId: string, goal: Goal): Promise<void>;
+  listGoals(userId: string): Promise<Goal[]>;
+  deleteGoal(userId: string, effectiveFrom: string): Promise<boolean>;
+  createFood(userId: string, food: FoodInput): Promise<SavedFood>;
+  getFood(userId: string, foodId: string): Promise<SavedFood | null>;
+  updateFood(userId: string, foodId: string, updates: Partial<FoodInput>): Promise<SavedFood | null>;
+  deleteFood(userId: string, foodId: string): Promise<boolean>;
+  listFoods(userId: string): Promise<SavedFood[]>;
+  createRecipe(userId: string, recipe: RecipeInput): Promise<Recipe>;
+  getRecipe(userId: string, recipeId: string): Promise<Recipe | null>;
+  updateRecipe(userId: string, recipeId: string, updates: Partial<RecipeInput>): Promise<Recipe | null>;
+  deleteRecipe(userId: string, recipeId: string): Promise<boolean>;
+  listRecipes(userId: string): Promise<Recipe[]>;
+  /** Revisions for an entry, oldest first. */
+  listRevisions(userId: string, entryId: string): Promise<Revision[]>;
+  createWeight(userId: string, weight: WeightInput): Promise<WeightEntry>;
+  /** Weigh-ins in the range, oldest first. */
+  listWeights(userId: string, start: string, end: string): Promise<WeightEntry[]>;
+  deleteWeight(userId: string, weightId: string): Promise<boolean>;
+  createActivity(userId: string, activity: ActivityInput): Promise<Activity>;
+  getActivity(userId: string, activityId: string): Promise<Activity | null>;
+  updateActivity(userId: string, activityId: string, updates: Partial<ActivityInput>): Promise<Activity | null>;
+  deleteActivity(userId: string, activityId: string): Promise<boolean>;
+  /** Activities in the range, oldest first. */
+  listActivities(userId: string, start: string, end: string): Promise<Activity[]>;
+  createWebhook(userId: string, webhook: WebhookInput): Promise<Webhook>;
+  /** Webhooks oldest first. */
+  listWebhooks(userId: string): Promise<Webhook[]>;
+  deleteWebhook(userId: string, webhookId: string): Promise<boolean>;
+  recordDelivery(userId: string, delivery: WebhookDeliveryInput): Promise<WebhookDelivery>;
+  /** The most recent deliveries, newest first, optionally for one webhook. */
+  listDeliveries(userId: string, webhookId: string | undefined, limit: number): Promise<WebhookDelivery[]>;
+  /**
+   * Stores `record` and returns null, unless the key already has a record that has not expired by
+   * `record.created_at`, which is returned instead. Of two concurrent claims for one key only one gets null.
+   */
+  claimIdempotencyKey(userId: string, record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  /** Saves the response for a claimed key and moves its expiry to the end of the retention window. */
+  completeIdempotencyKey(userId: string, key: string, response: StoredResponse, expiresAt: string): Promise<void>;
+  /** Drops a claim so the key can be retried straight away. */
+  releaseIdempotencyKey(userId: string, key: string): Promise<void>;
+  /** Returns an empty object for users who have never saved settings. */
+  getSettings(userId: string): Promise<UserSettings>;
+  updateSettings(userId: string, updates: UserSettings): Promise<UserSettings>;
+}
+
+const STREAM_PAGE_SIZE = 500;
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+/**
+ * Most entries one `createEntries` call may write. Each entry takes an entry and a revision write plus at most
+ * one total write, so Firestore can commit them all in a single batch.
+ */
+export const MAX_CREATE_ENTRIES = Math.floor(BATCH_LIMIT / 3);
+
+export function createFirestoreStorage(collections: FirestoreCollections): StorageAdapter {
   const db = new Firestore();
+  const entriesCollection = collections.entries;
+  const totalsCollection = collections.totals;
+
+  function totalRef(userId: string, date: string) {
+    return db.collection(totalsCollection).doc(`${userId}_${date}`);
+  }
+
+  function totalIncrement(userId: string, date: string, delta: Nutrients) {
+    return {
+      user_id: userId,
+      date,
+      total_calories: FieldValue.increment(delta.calories),
+      total_protein: FieldValue.increment(delta.protein),
+      total_carbs: FieldValue.increment(delta.carbs),
+      total_fat: FieldValue.increment(delta.fat),
+      total_fiber: FieldValue.increment(delta.fiber)
+    };
+  }
+
+  /** Stored form of an entry: its owner plus the word prefixes `searchEntries` looks up. */
+  function entryDocument(userId: string, entry: Entry) {
+    return { ...entry, user_id: userId, search_tokens: searchTokens(entry) };
+  }
+
+  /** Moves an entry from `before` to `after` inside `tx`, adjusting daily totals; a null `after` deletes it. */
+  function writeEntryState(tx: Transaction, userId: string, entryId: string, before: Entry | null, after: Entry | null) {
+    const ref = db.collection(entriesCollection).doc(entryId);
+    if (after) {
+      tx.set(ref, entryDocument(userId, after));
+    } else {
+      tx.delete(ref);
+    }
+    for (const [date, delta] of entryTotalDeltas(before ? [before] : [], after ? [after] : [])) {
+      tx.set(totalRef(userId, date), totalIncrement(userId, date, delta), { merge: true });
+    }
+  }
+
+  function writeRevision(tx: Transaction, userId: string, revision: RevisionInput) {
+    const ref = db.collection(collections.revisions).doc();
+    tx.set(ref, { ...revision, revision_id: ref.id, user_id: userId });
+  }
+
+  async function ownedEntryRef(userId: string, entryId: string, tx?: Transaction) {
+    const ref = db.collection(entriesCollection).doc(entryId);
+    const snap = await (tx ? tx.get(ref) : ref.get());
+    if (!snap.exists || snap.data()?.user_id !== userId) {
+      return null;
+    }
+    return { ref, entry: toEntry_(snap.data()) };
+  }
+
+  function goalRef(userId: string, effectiveFrom: string) {
+    return db.collection(collections.goals).doc(`${userId}_${effectiveFrom}`);
+  }
+
+  /** Keys are chosen by clients and may contain `/`, which document ids cannot, so the id uses a hash of the key. */
+  function idempotencyRef(userId: string, key: string) {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return db.collection(collections.idempotencyKeys).doc(`${userId}_${hash}`);
+  }
+
+  async function ownedFoodRef(userId: string, foodId: string) {
+    const ref = db.collection(collections.foods).doc(foodId);
+    const snap = await ref.get();
+    if (!snap.exists || snap.data()?.user_id !== userId) {
+      return null;
+    }
+    return { ref, food: withoutUserId_(snap.data()) as SavedFood };
+  }
+
+  async function ownedActivityRef(userId: string, activityId: string) {
+    const ref = db.collection(collections.activities).doc(activityId);
+    const snap = await ref.get();
+    if (!snap.exists || snap.data()?.user_id !== userId) {
+      return null;
+    }
+    return { ref, activity: withoutUserId_(snap.data()) as Activity };
+  }
+
+  async function ownedRecipeRef(userId: string, recipeId: string) {
+    const ref = db.collection(collections.recipes).doc(recipeId);
+    const snap = await ref.get();
+    if (!snap.exists || snap.data()?.user_id !== userId) {
+      return null;
+    }
+    return { ref, recipe: withoutUserId_(snap.data()) as Recipe };
+  }
 
   return {
-    async createEntries(entries) {
+    async createEntries(userId, entries, meta) {
+      checkCreateLimit(entries);
       const batch = db.batch();
-      const created: Entry[] = [];
-
-      for (const entry of entries) {
+      const created = entries.map((entry, sequence) => {
         const ref = db.collection(entriesCollection).doc();
         const withId = { ...entry, entry_id: ref.id };
-        created.push(withId);
-        batch.set(ref, withId);
+        const revision: RevisionInput = { entry_id: ref.id, action: "create", before: null, after: withId, ...meta, sequence };
+        batch.set(ref, entryDocument(userId, withId));
+        const revisionRef = db.collection(collections.revisions).doc();
+        batch.set(revisionRef, { ...revision, revision_id: revisionRef.id, user_id: userId });
+        return withId;
+      });
+      for (const [date, delta] of entryTotalDeltas([], entries)) {
+        batch.set(totalRef(userId, date), totalIncrement(userId, date, delta), { merge: true });
       }
-
       await batch.commit();
+
       return created;
     },
-    async getEntry(entryId) {
-      const doc = await db.collection(entriesCollection).doc(entryId).get();
-      return doc.exists ? (doc.data() as Entry) : null;
+    async getEntry(userId, entryId) {
+      const owned = await ownedEntryRef(userId, entryId);
+      return owned ? owned.entry : null;
     },
-    async updateEntry(entryId, updates) {
-      await db.collection(entriesCollection).doc(entryId).update(updates);
+    async updateEntry(userId, entryId, change, meta) {
+      return db.runTransaction(async (tx) => {
+        const owned = await ownedEntryRef(userId, entryId, tx);
+        if (!owned) {
+          return null;
+        }
+        const before = owned.entry;
+        const after: Entry = { ...before, ...change(before), entry_id: entryId };
+        writeEntryState(tx, userId, entryId, before, after);
+        writeRevision(tx, userId, { entry_id: entryId, action: "update", before, after, ...meta, sequence: 0 });
+        return { before, after };
+      });
     },
-    async deleteEntry(entryId) {
-      const ref = db.collection(entriesCollection).doc(entryId);
-      const snap = await ref.get();
-      if (!snap.exists) {
-        return null;
-      }
-      const data = snap.data() as Entry;
-      await ref.delete();
-      return data;
+    async deleteEntry(userId, entryId, meta) {
+      return db.runTransaction(async (tx) => {
+        const owned = await ownedEntryRef(userId, entryId, tx);
+        if (!owned) {
+          return null;
+        }
+        const before = owned.entry;
+        writeEntryState(tx, userId, entryId, before, null);
+        writeRevision(tx, userId, { entry_id: entryId, action: "delete", before, after: null, ...meta, sequence: 0 });
+        return before;
+      });
     },
-    async listEntries(date, limit, offset) {
-      let query = db.collection(entriesCollection).where("date", "==", date).orderBy("timestamp", "desc");
-      if (offset > 0) {
-        query = query.offset(offset);
-      }
-      if (limit > 0) {
-        query = query.limit(limit);
+    async applyEntryChanges(userId, mutations, meta) {
+      return db.runTransaction(async (tx) => {
+        const current = new Map<string, Entry | null>();
+        for (const entryId of new Set(mutations.map((mutation) => mutation.entry_id))) {
+          const owned = await ownedEntryRef(userId, entryId, tx);
+          current.set(entryId, owned ? owned.entry : null);
+        }
+        const result = planEntryChanges(mutations, current);
+        if (result.status !== "applied") {
+          return result;
+        }
+
+        // A document may only be written once per transaction, so write each entry's final state and the
+        // summed total deltas rather than going through writeEntryState per mutation.
+        const finalStates = new Map(result.changes.map((change) => [change.entry_id, change.after]));
+        for (const [entryId, after] of finalStates) {
+          const ref = db.collection(entriesCollection).doc(entryId);
+          if (after) {
+            tx.set(ref, entryDocument(userId, after));
+          } else {
+            tx.delete(ref);
+          }
+        }
+        const removed = Array.from(finalStates.keys(), (entryId) => current.get(entryId) as Entry);
+        const added = Array.from(finalStates.values()).filter((after): after is Entry => after !== null);
+        for (const [date, delta] of entryTotalDeltas(removed, added)) {
+          tx.set(totalRef(userId, date), totalIncrement(userId, date, delta), { merge: true });
+        }
+        result.changes.forEach((change, sequence) => {
+          writeRevision(tx, userId, { ...change, action: change.after ? "update" : "delete", ...meta, sequence });
+        });
+        return result;
+      });
+    },
+    async undoEntry(userId, entryId, undoneAt) {
+      return db.runTransaction(async (tx) => {
+        const revisions = await tx.get(
+          db
+            .collection(collections.revisions)
+            .where("user_id", "==", userId)
+            .where("entry_id", "==", entryId)
+            .orderBy("timestamp", "asc")
+        );
+        const owned = await ownedEntryRef(userId, entryId, tx);
+        const result = planUndo(
+          revisions.docs.map((doc) => withoutUserId_(doc.data()) as Revision).sort(compareRevisions),
+          owned ? owned.entry : null
+        );
+        if (result.status !== "undone") {
+          return result;
+        }
+
+        writeEntryState(tx, userId, entryId, result.before, result.after);
+        tx.update(db.collection(collections.revisions).doc(result.revision.revision_id), { undone_at: undoneAt });
+        return { ...result, revision: { ...result.revision, undone_at: undoneAt } };
+      });
+    },
+    async listEntries(userId, date, page) {
+      let query = db
+        .collection(entriesCollection)
+        .where("user_id", "==", userId)
+        .where("date", "==", date)
+        .orderBy("timestamp", "desc")
+        .orderBy(FieldPath.documentId(), "desc");
+      if (page.cursor) {
+        query = query.startAfter(page.cursor.timestamp, page.cursor.entry_id);
+      } else if (page.offset) {
+        query = query.offset(page.offset);
       }
-      const snapshot = await query.get();
-      return snapshot.docs.map((doc) => doc.data() as Entry);
+      const snapshot = await query.limit(page.limit + 1).get();
+      return toEntryPage(snapshot.docs.map((doc) => toEntry_(doc.data())), page.limit);
     },
-    async listEntriesRange(start, end, limit, offset) {
+    async listEntriesRange(userId, start, end, page) {
+      // Starting after the cursor's values rather than skipping an offset means Firestore neither reads nor
+      // bills earlier documents, and entries added while paging cannot shift later pages.
       let query = db
         .collection(entriesCollection)
+        .where("user_id", "==", userId)
         .where("date", ">=", start)
         .where("date", "<=", end)
         .orderBy("date", "asc")
-        .orderBy("timestamp", "desc");
-      if (offset > 0) {
-        query = query.offset(offset);
+        .orderBy("timestamp", "desc")
+        .orderBy(FieldPath.documentId(), "desc");
+      if (page.cursor) {
+        query = query.startAfter(page.cursor.date, page.cursor.timestamp, page.cursor.entry_id);
+      } else if (page.offset) {
+        query = query.offset(page.offset);
       }
-      if (limit > 0) {
-        query = query.limit(limit);
+      const snapshot = await query.limit(page.limit + 1).get();
+      return toEntryPage(snapshot.docs.map((doc) => toEntry_(doc.data())), page.limit);
+    },
+    async *streamEntriesRange(userId, start, end) {
+      const base = db
+        .collection(entriesCollection)
+        .where("user_id", "==", userId)
+        .where("date", ">=", start)
+        .where("date", "<=", end)
+        .orderBy("date", "asc")
+        .orderBy("timestamp", "desc")
+        .orderBy(FieldPath.documentId(), "desc")
+        .limit(STREAM_PAGE_SIZE);
+      let last: QueryDocumentSnapshot | undefined;
+      while (true) {
+        const snapshot = await (last ? base.startAfter(last) : base).get();
+        for (const doc of snapshot.docs) {
+          yield toEntry_(doc.data());
+        }
+        if (snapshot.size < STREAM_PAGE_SIZE) {
+          return;
+        }
+        last = snapshot.docs[snapshot.docs.length - 1];
       }
-      const snapshot = await query.get();
-      return snapshot.docs.map((doc) => doc.data() as Entry);
     },
-    async incrementTotal(date, delta) {
-      const ref = db.collection(totalsCollection).doc(date);
-      await ref.set({ date, total_calories: FieldValue.increment(delta) }, { merge: true });
+    async searchEntries(userId, search) {
+      // Firestore allows one array-contains filter, so look up the longest term and check the rest here.
+      const [lookup, ...rest] = [...search.terms].sort((a, b) => b.length - a.length);
+      let base = db.collection(entriesCollection).where("user_id", "==", userId).where("search_tokens", "array-contains", lookup);
+      if (search.meal_type) {
+        base = base.where("meal_type", "==", search.meal_type);
+      }
+      if (search.start) {
+        base = base.where("date", ">=", search.start);
+      }
+      if (search.end) {
+        base = base.where("date", "<=", search.end);
+      }
+      const paged = base.orderBy("date", "desc").orderBy("timestamp", "desc").limit(STREAM_PAGE_SIZE);
+
+      const results: Entry[] = [];
+      let skipped = 0;
+      let last: QueryDocumentSnapshot | undefined;
+      while (true) {
+        const snapshot = await (last ? paged.startAfter(last) : paged).get();
+        for (const doc of snapshot.docs) {
+          if (!matchesSearch(doc.data().search_tokens || [], rest)) {
+            continue;
+          }
+          if (skipped < search.offset) {
+            skipped += 1;
+            continue;
+          }
+          results.push(toEntry_(doc.data()));
+          if (results.length >= search.limit) {
+            return results;
+          }
+        }
+        if (snapshot.size < STREAM_PAGE_SIZE) {
+          return results;
+        }
+        last = snapshot.docs[snapshot.docs.length - 1];
+      }
     },
-    async getTotal(date) {
-      const doc = await db.collection(totalsCollection).doc(date).get();
-      return doc.exists ? numberOrZero(doc.data()?.total_calories) : 0;
+    async backfillSearchTokens() {
+      const base = db.collection(entriesCollection).orderBy(FieldPath.documentId()).limit(BATCH_LIMIT);
+      let updated = 0;
+      let last: QueryDocumentSnapshot | undefined;
+      while (true) {
+        const snapshot = await (last ? base.startAfter(last) : base).get();
+        const batch = db.batch();
+        let writes = 0;
+        for (const doc of snapshot.docs) {
+          const tokens = searchTokens(toEntry_(doc.data()));
+          if (JSON.stringify(doc.data().search_tokens) !== JSON.stringify(tokens)) {
+            batch.update(doc.ref, { search_tokens: tokens });
+            writes += 1;
+          }
+        }
+        if (writes > 0) {
+          await batch.commit();
+          updated += writes;
+        }
+        if (snapshot.size < BATCH_LIMIT) {
+          return updated;
+        }
+        last = snapshot.docs[snapshot.docs.length - 1];
+      }
     },
-    async getTotalsRange(start, end) {
+    async adoptLegacyData(userId) {
+      const migrated: LegacyMigration = { entries: 0, totals: 0 };
+
+      const entries = db.collection(entriesCollection).orderBy(FieldPath.documentId()).limit(BATCH_LIMIT);
+      let last: QueryDocumentSnapshot | undefined;
+      while (true) {
+        const snapshot = await (last ? entries.startAfter(last) : entries).get();
+        const batch = db.batch();
+        let writes = 0;
+        for (const doc of snapshot.docs) {
+          if (!doc.data().user_id) {
+            batch.update(doc.ref, { user_id: userId });
+            writes += 1;
+          }
+        }
+        if (writes > 0) {
+          await batch.commit();
+          migrated.entries += writes;
+        }
+        if (snapshot.size < BATCH_LIMIT) {
+          break;
+        }
+        last = snapshot.docs[snapshot.docs.length - 1];
+      }
+
+      // Each legacy total takes two writes (add to the user's total, delete the old document), so a page of
+      // them fits one batch and a total is never added without its old document going with it.
+      const pageSize = BATCH_LIMIT / 2;
+      const totals = db.collection(totalsCollection).orderBy(FieldPath.documentId()).limit(pageSize);
+      let lastTotal: QueryDocumentSnapshot | undefined;
+      while (true) {
+        const snapshot = await (lastTotal ? totals.startAfter(lastTotal) : totals).get();
+        const batch = db.batch();
+        let moved = 0;
+        for (const doc of snapshot.docs) {
+          const data = doc.data();
+          if (data.user_id) {
+            continue;
+          }
+          const date = String(data.date || doc.id);
+          batch.set(totalRef(userId, date), totalIncrement(userId, date, fromDailyTotals(data)), { merge: true });
+          batch.delete(doc.ref);
+          moved += 1;
+        }
+        if (moved > 0) {
+          await batch.commit();
+          migrated.totals += moved;
+        }
+        if (snapshot.size < pageSize) {
+          return migrated;
+        }
+        lastTotal = snapshot.docs[snapshot.docs.length - 1];
+      }
+    },
+    async setTotal(userId, date, totals) {
+      await totalRef(userId, date).set({ user_id: userId, date, ...toDailyTotals(totals) });
+    },
+    async getTotal(userId, date) {
+      const doc = await totalRef(userId, date).get();
+      return toDailyTotals(fromDailyTotals(doc.data() || {}));
+    },
+    async getTotalsRange(userId, start, end) {
       const snapshot = await db
         .collection(totalsCollection)
+        .where("user_id", "==", userId)
         .where("date", ">=", start)
         .where("date", "<=", end)
         .orderBy("date", "asc")
         .get();
       return snapshot.docs.map((doc) => ({
-        date: String(doc.data().date || doc.id),
-        total_calories: numberOrZero(doc.data().total_calories)
+        date: String(doc.data().date),
+        ...toDailyTotals(fromDailyTotals(doc.data()))
       }));
+    },
+    async setGoal(userId, goal) {
+      await goalRef(userId, goal.effective_from).set({ ...goal, user_id: userId });
+    },
+    async listGoals(userId) {
+      const snapshot = await db
+        .collection(collections.goals)
+        .where("user_id", "==", userId)
+        .orderBy("effective_from", "asc")
+        .get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as Goal);
+    },
+    async deleteGoal(userId, effectiveFrom) {
+      const ref = goalRef(userId, effectiveFrom);
+      const snap = await ref.get();
+      if (!snap.exists) {
+        return false;
+      }
+      await ref.delete();
+      return true;
+    },
+    async createFood(userId, food) {
+      const ref = db.collection(collections.foods).doc();
+      const now = new Date().toISOString();
+      const saved: SavedFood = { ...food, food_id: ref.id, created_at: now, updated_at: now };
+      await ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async getFood(userId, foodId) {
+      const owned = await ownedFoodRef(userId, foodId);
+      return owned ? owned.food : null;
+    },
+    async updateFood(userId, foodId, updates) {
+      const owned = await ownedFoodRef(userId, foodId);
+      if (!owned) {
+        return null;
+      }
+      const saved: SavedFood = { ...owned.food, ...updates, food_id: foodId, updated_at: new Date().toISOString() };
+      await owned.ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async deleteFood(userId, foodId) {
+      const owned = await ownedFoodRef(userId, foodId);
+      if (!owned) {
+        return false;
+      }
+      await owned.ref.delete();
+      return true;
+    },
+    async listFoods(userId) {
+      const snapshot = await db.collection(collections.foods).where("user_id", "==", userId).orderBy("name", "asc").get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as SavedFood);
+    },
+    async createRecipe(userId, recipe) {
+      const ref = db.collection(collections.recipes).doc();
+      const now = new Date().toISOString();
+      const saved: Recipe = { ...recipe, recipe_id: ref.id, created_at: now, updated_at: now };
+      await ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async getRecipe(userId, recipeId) {
+      const owned = await ownedRecipeRef(userId, recipeId);
+      return owned ? owned.recipe : null;
+    },
+    async updateRecipe(userId, recipeId, updates) {
+      const owned = await ownedRecipeRef(userId, recipeId);
+      if (!owned) {
+        return null;
+      }
+      const saved: Recipe = { ...owned.recipe, ...updates, recipe_id: recipeId, updated_at: new Date().toISOString() };
+      await owned.ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async deleteRecipe(userId, recipeId) {
+      const owned = await ownedRecipeRef(userId, recipeId);
+      if (!owned) {
+        return false;
+      }
+      await owned.ref.delete();
+      return true;
+    },
+    async listRecipes(userId) {
+      const snapshot = await db.collection(collections.recipes).where("user_id", "==", userId).orderBy("name", "asc").get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as Recipe);
+    },
+    async listRevisions(userId, entryId) {
+      const snapshot = await db
+        .collection(collections.revisions)
+        .where("user_id", "==", userId)
+        .where("entry_id", "==", entryId)
+        .orderBy("timestamp", "asc")
+        .get();
+      // Revisions from one request share a timestamp, and Firestore orders ties by document id.
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as Revision).sort(compareRevisions);
+    },
+    async createWeight(userId, weight) {
+      const ref = db.collection(collections.weights).doc();
+      const saved: WeightEntry = { ...weight, weight_id: ref.id };
+      await ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async listWeights(userId, start, end) {
+      const snapshot = await db
+        .collection(collections.weights)
+        .where("user_id", "==", userId)
+        .where("date", ">=", start)
+        .where("date", "<=", end)
+        .orderBy("date", "asc")
+        .orderBy("timestamp", "asc")
+        .get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as WeightEntry);
+    },
+    async deleteWeight(userId, weightId) {
+      const ref = db.collection(collections.weights).doc(weightId);
+      const snap = await ref.get();
+      if (!snap.exists || snap.data()?.user_id !== userId) {
+        return false;
+      }
+      await ref.delete();
+      return true;
+    },
+    async createActivity(userId, activity) {
+      const ref = db.collection(collections.activities).doc();
+      const saved: Activity = { ...activity, activity_id: ref.id, updated_at: activity.timestamp };
+      await ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async getActivity(userId, activityId) {
+      const owned = await ownedActivityRef(userId, activityId);
+      return owned ? owned.activity : null;
+    },
+    async updateActivity(userId, activityId, updates) {
+      const owned = await ownedActivityRef(userId, activityId);
+      if (!owned) {
+        return null;
+      }
+      const saved: Activity = { ...owned.activity, ...updates, activity_id: activityId, updated_at: new Date().toISOString() };
+      await owned.ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async deleteActivity(userId, activityId) {
+      const owned = await ownedActivityRef(userId, activityId);
+      if (!owned) {
+        return false;
+      }
+      await owned.ref.delete();
+      return true;
+    },
+    async listActivities(userId, start, end) {
+      const snapshot = await db
+        .collection(collections.activities)
+        .where("user_id", "==", userId)
+        .where("date", ">=", start)
+        .where("date", "<=", end)
+        .orderBy("date", "asc")
+        .orderBy("timestamp", "asc")
+        .get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as Activity);
+    },
+    async createWebhook(userId, webhook) {
+      const ref = db.collection(collections.webhooks).doc();
+      const saved: Webhook = { ...webhook, webhook_id: ref.id };
+      await ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async listWebhooks(userId) {
+      const snapshot = await db
+        .collection(collections.webhooks)
+        .where("user_id", "==", userId)
+        .orderBy("created_at", "asc")
+        .get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as Webhook);
+    },
+    async deleteWebhook(userId, webhookId) {
+      const ref = db.collection(collections.webhooks).doc(webhookId);
+      const snap = await ref.get();
+      if (!snap.exists || snap.data()?.user_id !== userId) {
+        return false;
+      }
+      await ref.delete();
+      return true;
+    },
+    async recordDelivery(userId, delivery) {
+      const ref = db.collection(collections.webhookDeliveries).doc();
+      const saved: WebhookDelivery = { ...delivery, delivery_id: ref.id };
+      await ref.set({ ...saved, user_id: userId });
+      return saved;
+    },
+    async listDeliveries(userId, webhookId, limit) {
+      let query = db.collection(collections.webhookDeliveries).where("user_id", "==", userId);
+      if (webhookId) {
+        query = query.where("webhook_id", "==", webhookId);
+      }
+      const snapshot = await query.orderBy("timestamp", "desc").limit(limit).get();
+      return snapshot.docs.map((doc) => withoutUserId_(doc.data()) as WebhookDelivery);
+    },
+    async claimIdempotencyKey(userId, record) {
+      const ref = idempotencyRef(userId, record.key);
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const existing = snap.exists ? toIdempotencyRecord_(snap.data()) : null;
+        if (existing && existing.expires_at > record.created_at) {
+          return existing;
+        }
+        tx.set(ref, { ...record, user_id: userId, delete_after: new Date(record.expires_at) });
+        return null;
+      });
+    },
+    async completeIdempotencyKey(userId, key, response, expiresAt) {
+      await idempotencyRef(userId, key).update({ response, expires_at: expiresAt, delete_after: new Date(expiresAt) });
+    },
+    async releaseIdempotencyKey(userId, key) {
+      await idempotencyRef(userId, key).delete();
+    },
+    async getSettings(userId) {
+      const doc = await db.collection(collections.settings).doc(userId).get();
+      return doc.exists ? (withoutUserId_(doc.data()) as UserSettings) : {};
+    },
+    async updateSettings(userId, updates) {
+      const ref = db.collection(collections.settings).doc(userId);
+      await ref.set({ ...updates, user_id: userId }, { merge: true });
+      const doc = await ref.get();
+      return withoutUserId_(doc.data()) as UserSettings;
     }
   };
 }
 
 export function createMemoryStorage(): StorageAdapter {
-  const entries = new Map<string, Entry>();
-  const totals = new Map<string, number>();
+  const users = new Map<
+    string,
+    {
+      entries: Map<string, Entry>;
+      totals: Map<string, Nutrients>;
+      goals: Map<string, Goal>;
+      foods: Map<string, SavedFood>;
+      recipes: Map<string, Recipe>;
+      revisions: Revision[];
+      weights: Map<string, WeightEntry>;
+      activities: Map<string, Activity>;
+      webhooks: Map<string, Webhook>;
+      deliveries: WebhookDelivery[];
+      idempotencyKeys: Map<string, IdempotencyRecord>;
+      settings: UserSettings;
+    }
+  >();
   let counter = 0;
 
-  function nextId() {
+  function nextId(prefix = "entry") {
     counter += 1;
-    return `entry-${counter}`;
+    return `${prefix}-${counter}`;
+  }
+
+  function scope(userId: string) {
+    let data = users.get(userId);
+    if (!data) {
+      data = {
+        entries: new Map(),
+        totals: new Map(),
+        goals: new Map(),
+        foods: new Map(),
+        recipes: new Map(),
+        revisions: [],
+        weights: new Map(),
+        activities: new Map(),
+        webhooks: new Map(),
+        deliveries: [],
+        idempotencyKeys: new Map(),
+        settings: {}
+      };
+      users.set(userId, data);
+    }
+    return data;
+  }
+
+  function adjustTotals(userId: string, deltas: Map<string, Nutrients>) {
+    const { totals } = scope(userId);
+    for (const [date, delta] of deltas) {
+      totals.set(date, addNutrients(totals.get(date) || nutrientsOf({}), delta));
+    }
+  }
+
+  function entriesInRange(userId: string, start: string, end: string) {
+    return Array.from(scope(userId).entries.values())
+      .filter((entry) => entry.date >= start && entry.date <= end)
+      .sort(compareEntries);
+  }
+
+  function pageOf(sorted: Entry[], page: PageRequest): EntryPage {
+    const { cursor } = page;
+    const rest = cursor ? sorted.filter((entry) => compareEntries(entry, cursor) > 0) : sorted.slice(page.offset || 0);
+    return toEntryPage(rest.slice(0, page.limit + 1), page.limit);
   }
 
+  function addRevision(userId: string, revision: RevisionInput) {
+    scope(userId).revisions.push({ ...revision, revision_id: nextId("revision") });
+  }
+
+  // Entry writes never await between reading and writing, so each one is atomic
+  // with respect to concurrent requests, matching the Firestore transactions.
   return {
-    async createEntries(items) {
-      const created = items.map((entry) => {
-        const id = nextId();
-        const full = { ...entry, entry_id: id };
-        entries.set(id, full);
-        return full;
+    async createEntries(userId, items, meta) {
+      checkCreateLimit(items);
+      const { entries } = scope(userId);
+      const created = items.map((entry) => ({ ...entry, entry_id: nextId() }));
+      created.forEach((entry, sequence) => {
+        entries.set(entry.entry_id, entry);
+        addRevision(userId, { entry_id: entry.entry_id, action: "create", before: null, after: entry, ...meta, sequence });
       });
+      adjustTotals(userId, entryTotalDeltas([], created));
       return created;
     },
-    async getEntry(entryId) {
-      return entries.get(entryId) || null;
+    async getEntry(userId, entryId) {
+      return scope(userId).entries.get(entryId) || null;
     },
-    async updateEntry(entryId, updates) {
-      const current = entries.get(entryId);
-      if (!current) {
-        return;
+    async updateEntry(userId, entryId, change, meta) {
+      const { entries } = scope(userId);
+      const before = entries.get(entryId);
+      if (!before) {
+        return null;
       }
-      entries.set(entryId, { ...current, ...updates, entry_id: entryId });
+      const after: Entry = { ...before, ...change(before), entry_id: entryId };
+      entries.set(entryId, after);
+      adjustTotals(userId, entryTotalDeltas([before], [after]));
+      addRevision(userId, { entry_id: entryId, action: "update", before, after, ...meta, sequence: 0 });
+      return { before, after };
     },
-    async deleteEntry(entryId) {
-      const current = entries.get(entryId);
-      if (!current) {
+    async deleteEntry(userId, entryId, meta) {
+      const { entries } = scope(userId);
+      const before = entries.get(entryId);
+      if (!before) {
         return null;
       }
       entries.delete(entryId);
-      return current;
-    },
-    async listEntries(date, limit, offset) {
-      const all = Array.from(entries.values())
-        .filter((entry) => entry.date === date)
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-      return all.slice(offset, offset + limit);
-    },
-    async listEntriesRange(start, end, limit, offset) {
-      const all = Array.from(entries.values())
-        .filter((entry) => entry.date >= start && entry.date <= end)
-        .sort((a, b) => {
-          if (a.date === b.date) {
-            return b.timestamp.localeCompare(a.timestamp);
-          }
-          return a.date.localeCompare(b.date);
-        });
-      return all.slice(offset, offset + limit);
+      adjustTotals(userId, entryTotalDeltas([before], []));
+      addRevision(userId, { entry_id: entryId, action: "delete", before, after: null, ...meta, sequence: 0 });
+      return before;
     },
-    async incrementTotal(date, delta) {
-      const current = totals.get(date) || 0;
-      totals.set(date, numberOrZero(current + delta));
+    async applyEntryChanges(userId, mutations, meta) {
+      const { entries } = scope(userId);
+      const result = planEntryChanges(mutations, entries);
+      if (result.status !== "applied") {
+        return result;
+      }
+      result.changes.forEach((change, sequence) => {
+        if (change.after) {
+          entries.set(change.entry_id, change.after);
+        } else {
+          entries.delete(change.entry_id);
+        }
+        adjustTotals(userId, entryTotalDeltas([change.before], change.after ? [change.after] : []));
+        addRevision(userId, { ...change, action: change.after ? "update" : "delete", ...meta, sequence });
+      });
+      return result;
     },
-    async getTotal(date) {
-      return numberOrZero(totals.get(date) || 0);
+    async undoEntry(userId, entryId, undoneAt) {
+      const { entries, revisions } = scope(userId);
+      const result = planUndo(
+        revisions.filter((revision) => revision.entry_id === entryId).sort(compareRevisions),
+        entries.get(entryId) || null
+      );
+      if (result.status !== "undone") {
+        return result;
+      }
+      if (result.after) {
+        entries.set(entryId, result.after);
+      } else {
+        entries.delete(entryId);
+      }
+      adjustTotals(userId, entryTotalDeltas(result.before ? [result.before] : [], result.after ? [result.after] : []));
+      result.revision.undone_at = undoneAt;
+      return { ...result, revision: { ...result.revision } };
     },
-    async getTotalsRange(start, end) {
-      const items = Array.from(totals.entries())
+    async listEntries(userId, date, page) {
+      return pageOf(entriesInRange(userId, date, date), page);
+    },
+    async listEntriesRange(userId, start, end, page) {
+      return pageOf(entriesInRange(userId, start, end), page);
+    },
+    async *streamEntriesRange(userId, start, end) {
+      yield* entriesInRange(userId, start, end);
+    },
+    async searchEntries(userId, search) {
+      return Array.from(scope(userId).entries.values())
+        .filter(
+          (entry) =>
+            (!search.start || entry.date >= search.start) &&
+            (!search.end || entry.date <= search.end) &&
+            (!search.meal_type || entry.meal_type === search.meal_type) &&
+            matchesSearch(searchTokens(entry), search.terms)
+        )
+        .sort((a, b) => b.date.localeCompare(a.date) || b.timestamp.localeCompare(a.timestamp))
+        .slice(search.offset, search.offset + search.limit);
+    },
+    async backfillSearchTokens() {
+      return 0;
+    },
+    async adoptLegacyData() {
+      return { entries: 0, totals: 0 };
+    },
+    async setTotal(userId, date, totals) {
+      scope(userId).totals.set(date, nutrientsOf(totals));
+    },
+    async getTotal(userId, date) {
+      return toDailyTotals(scope(userId).totals.get(date) || nutrientsOf({}));
+    },
+    async getTotalsRange(userId, start, end) {
+      const items = Array.from(scope(userId).totals.entries())
         .filter(([date]) => date >= start && date <= end)
         .sort(([a], [b]) => a.localeCompare(b))
-        .map(([date, total]) => ({ date, total_calories: numberOrZero(total) }));
+        .map(([date, total]) => ({ date, ...toDailyTotals(total) }));
       return items;
+    },
+    async setGoal(userId, goal) {
+      scope(userId).goals.set(goal.effective_from, goal);
+    },
+    async listGoals(userId) {
+      return Array.from(scope(userId).goals.values()).sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+    },
+    async deleteGoal(userId, effectiveFrom) {
+      return scope(userId).goals.delete(effectiveFrom);
+    },
+    async createFood(userId, food) {
+      const now = new Date().toISOString();
+      const saved: SavedFood = { ...food, food_id: nextId("food"), created_at: now, updated_at: now };
+      scope(userId).foods.set(saved.food_id, saved);
+      return saved;
+    },
+    async getFood(userId, foodId) {
+      return scope(userId).foods.get(foodId) || null;
+    },
+    async updateFood(userId, foodId, updates) {
+      const { foods } = scope(userId);
+      const current = foods.get(foodId);
+      if (!current) {
+        return null;
+      }
+      const saved: SavedFood = { ...current, ...updates, food_id: foodId, updated_at: new Date().toISOString() };
+      foods.set(foodId, saved);
+      return saved;
+    },
+    async deleteFood(userId, foodId) {
+      return scope(userId).foods.delete(foodId);
+    },
+    async listFoods(userId) {
+      return Array.from(scope(userId).foods.values()).sort((a, b) => a.name.localeCompare(b.name));
+    },
+    async createRecipe(userId, recipe) {
+      const now = new Date().toISOString();
+      const saved: Recipe = { ...recipe, recipe_id: nextId("recipe"), created_at: now, updated_at: now };
+      scope(userId).recipes.set(saved.recipe_id, saved);
+      return saved;
+    },
+    async getRecipe(userId, recipeId) {
+      return scope(userId).recipes.get(recipeId) || null;
+    },
+    async updateRecipe(userId, recipeId, updates) {
+      const { recipes } = scope(userId);
+      const current = recipes.get(recipeId);
+      if (!current) {
+        return null;
+      }
+      const saved: Recipe = { ...current, ...updates, recipe_id: recipeId, updated_at: new Date().toISOString() };
+      recipes.set(recipeId, saved);
+      return saved;
+    },
+    async deleteRecipe(userId, recipeId) {
+      return scope(userId).recipes.delete(recipeId);
+    },
+    async listRecipes(userId) {
+      return Array.from(scope(userId).recipes.values()).sort((a, b) => a.name.localeCompare(b.name));
+    },
+    async listRevisions(userId, entryId) {
+      return scope(userId)
+        .revisions.filter((revision) => revision.entry_id === entryId)
+        .sort(compareRevisions)
+        .map((revision) => ({ ...revision }));
+    },
+    async createWeight(userId, weight) {
+      const saved: WeightEntry = { ...weight, weight_id: nextId("weight") };
+      scope(userId).weights.set(saved.weight_id, saved);
+      return saved;
+    },
+    async listWeights(userId, start, end) {
+      return Array.from(scope(userId).weights.values())
+        .filter((weight) => weight.date >= start && weight.date <= end)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp.localeCompare(b.timestamp));
+    },
+    async deleteWeight(userId, weightId) {
+      return scope(userId).weights.delete(weightId);
+    },
+    async createActivity(userId, activity) {
+      const saved: Activity = { ...activity, activity_id: nextId("activity"), updated_at: activity.timestamp };
+      scope(userId).activities.set(saved.activity_id, saved);
+      return saved;
+    },
+    async getActivity(userId, activityId) {
+      return scope(userId).activities.get(activityId) || null;
+    },
+    async updateActivity(userId, activityId, updates) {
+      const { activities } = scope(userId);
+      const current = activities.get(activityId);
+      if (!current) {
+        return null;
+      }
+      const saved: Activity = { ...current, ...updates, activity_id: activityId, updated_at: new Date().toISOString() };
+      activities.set(activityId, saved);
+      return saved;
+    },
+    async deleteActivity(userId, activityId) {
+      return scope(userId).activities.delete(activityId);
+    },
+    async listActivities(userId, start, end) {
+      return Array.from(scope(userId).activities.values())
+        .filter((activity) => activity.date >= start && activity.date <= end)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp.localeCompare(b.timestamp));
+    },
+    async createWebhook(userId, webhook) {
+      const saved: Webhook = { ...webhook, webhook_id: nextId("webhook") };
+      scope(userId).webhooks.set(saved.webhook_id, saved);
+      return saved;
+    },
+    async listWebhooks(userId) {
+      return Array.from(scope(userId).webhooks.values());
+    },
+    async deleteWebhook(userId, webhookId) {
+      return scope(userId).webhooks.delete(webhookId);
+    },
+    async recordDelivery(userId, delivery) {
+      const saved: WebhookDelivery = { ...delivery, delivery_id: nextId("delivery") };
+      scope(userId).deliveries.push(saved);
+      return saved;
+    },
+    async listDeliveries(userId, webhookId, limit) {
+      return scope(userId)
+        .deliveries.filter((delivery) => !webhookId || delivery.webhook_id === webhookId)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, limit);
+    },
+    async claimIdempotencyKey(userId, record) {
+      const { idempotencyKeys } = scope(userId);
+      for (const [key, existing] of idempotencyKeys) {
+        if (existing.expires_at <= record.created_at) {
+          idempotencyKeys.delete(key);
+        }
+      }
+      const existing = idempotencyKeys.get(record.key);
+      if (existing) {
+        return { ...existing };
+      }
+      idempotencyKeys.set(record.key, { ...record });
+      return null;
+    },
+    async completeIdempotencyKey(userId, key, response, expiresAt) {
+      const record = scope(userId).idempotencyKeys.get(key);
+      if (record) {
+        record.response = response;
+        record.expires_at = expiresAt;
+      }
+    },
+    async releaseIdempotencyKey(userId, key) {
+      scope(userId).idempotencyKeys.delete(key);
+    },
+    async getSettings(userId) {
+      return { ...scope(userId).settings };
+    },
+    async updateSettings(userId, updates) {
+      const data = scope(userId);
+      data.settings = { ...data.settings, ...updates };
+      return { ...data.settings };
     }
   };
 }
+
+/** Per-date change in daily totals when `removed` entries are replaced by `added` ones; zero deltas are dropped. */
+export function entryTotalDeltas(removed: EntryInput[], added: EntryInput[]): Map<string, Nutrients> {
+  const deltas = new Map<string, Nutrients>();
+  for (const [entries, sign] of [
+    [removed, -1],
+    [added, 1]
+  ] as const) {
+    for (const entry of entries) {
+      deltas.set(entry.date, addNutrients(deltas.get(entry.date) || nutrientsOf({}), nutrientsOf(entry), sign));
+    }
+  }
+  for (const [date, delta] of deltas) {
+    if (isZeroNutrients(delta)) {
+      deltas.delete(date);
+    }
+  }
+  return deltas;
+}
+
+/** Throws when a `createEntries` call asks for more than `MAX_CREATE_ENTRIES` entries. */
+export function checkCreateLimit(entries: EntryInput[]): void {
+  if (entries.length > MAX_CREATE_ENTRIES) {
+    throw new Error(`Too many entries: at most ${MAX_CREATE_ENTRIES} can be created at once`);
+  }
+}
+
+/**
+ * Splits entries into `createEntries` calls of at most `size`, packing whole dates together so each date's
+ * entries land with its total in one write. Only a date with more than `size` entries is split across calls.
+ */
+export function chunkEntriesByDate<T extends EntryInput>(entries: T[], size = MAX_CREATE_ENTRIES): T[][] {
+  const byDate = new Map<string, T[]>();
+  for (const entry of entries) {
+    const group = byDate.get(entry.date);
+    if (group) {
+      group.push(entry);
+    } else {
+      byDate.set(entry.date, [entry]);
+    }
+  }
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  for (let group of byDate.values()) {
+    if (current.length + group.length > size && current.length > 0) {
+      chunks.push(current);
+      current = [];
+    }
+    while (group.length > size) {
+      chunks.push(group.slice(0, size));
+      group = group.slice(size);
+    }
+    current.push(...group);
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Works out the changes `applyEntryChanges` writes from the entries' current states, applying mutations in order
+ * so repeated entries chain. Calls every `change` before anything is written, so one that throws aborts the batch.
+ */
+export function planEntryChanges(mutations: EntryMutation[], current: ReadonlyMap<string, Entry | null>): BatchResult {
+  const states = new Map(current);
+  const missing = new Set<string>();
+  const missingIndexes: number[] = [];
+  const changes: BatchEntryChange[] = [];
+  for (const [index, mutation] of mutations.entries()) {
+    const before = states.get(mutation.entry_id);
+    if (!before) {
+      missing.add(mutation.entry_id);
+      missingIndexes.push(index);
+      continue;
+    }
+    const after: Entry | null = mutation.change
+      ? { ...before, ...mutation.change(before), entry_id: mutation.entry_id }
+      : null;
+    states.set(mutation.entry_id, after);
+    changes.push({ entry_id: mutation.entry_id, before, after });
+  }
+  if (missing.size > 0) {
+    return { status: "not_found", entry_ids: Array.from(missing), indexes: missingIndexes };
+  }
+  return { status: "applied", changes };
+}
+
+/**
+ * Listing order shared by every adapter: date ascending, newest first within a date, then entry id
+ * descending so entries logged together still have a fixed place for cursors to resume from.
+ */
+export function compareEntries(a: EntryCursor, b: EntryCursor): number {
+  return compareStrings_(a.date, b.date) || compareStrings_(b.timestamp, a.timestamp) || compareStrings_(b.entry_id, a.entry_id);
+}
+
+export function cursorOf(entry: EntryCursor): EntryCursor {
+  return { date: entry.date, timestamp: entry.timestamp, entry_id: entry.entry_id };
+}
+
+/** Trims entries fetched with one extra row to `limit`, using the extra row to tell whether a next page exists. */
+export function toEntryPage(entries: Entry[], limit: number): EntryPage {
+  const page = entries.slice(0, limit);
+  return { entries: page, next_cursor: entries.length > limit ? cursorOf(page[page.length - 1]) : null };
+}
+
+/** Revision order shared by every adapter: oldest first, then in the order one request wrote them. */
+export function compareRevisions(a: Revision, b: Revision): number {
+  return compareStrings_(a.timestamp, b.timestamp) || (a.sequence || 0) - (b.sequence || 0);
+}
+
+/** Picks the revision `undoEntry` reverts: the latest one not yet undone, provided the entry still matches it. */
+export function planUndo(revisions: Revision[], current: Entry | null): UndoResult {
+  const last = revisions.filter((revision) => !revision.undone_at).pop();
+  if (!last) {
+    return { status: "nothing_to_undo" };
+  }
+  if (current && last.after ? !sameContent_(current, last.after) : current !== last.after) {
+    return { status: "conflict" };
+  }
+  return { status: "undone", revision: last, before: current, after: last.before };
+}
+
+/** Fields undo checks before reverting, so a change made without a revision is never silently overwritten. */
+const UNDO_CHECKED_FIELDS = ["date", "meal_type", "item", "quantity", "calories", "protein", "carbs", "fat", "fiber"] as const;
+
+function sameContent_(a: Entry, b: Entry): boolean {
+  return UNDO_CHECKED_FIELDS.every((field) => a[field] === b[field]);
+}
+
+/** Plain string order, which unlike the locale-aware `localeCompare` matches how Firestore and SQLite sort ids. */
+function compareStrings_(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function toEntry_(data: DocumentData | undefined): Entry {
+  const { search_tokens: _searchTokens, ...entry } = withoutUserId_(data);
+  return entry as Entry;
+}
+
+function toIdempotencyRecord_(data: DocumentData | undefined): IdempotencyRecord {
+  const { delete_after: _deleteAfter, ...record } = withoutUserId_(data);
+  return record as IdempotencyRecord;
+}
+
+function withoutUserId_(data: DocumentData | undefined): DocumentData {
+  const { user_id: _userId, ...rest } = data || {};
+  return rest;
+}
@@ -0,0 +1,93 @@
+import { numberOrZero } from "./lib.js";
+import type { WeightUnit } from "./types.js";
+
+const KG_PER_LB = 0.45359237;
+/** Approximate energy content of one kilogram of body weight change. */
+const KCAL_PER_KG = 7700;
+/** Smoothing factor for the exponentially weighted weight trend. */
+const TREND_ALPHA = 0.1;
+
+export interface TrendInput {
+  /** Consecutive dates, oldest first, including any warm-up days before the reported range. */
+  dates: string[];
+  /** Average weigh-in per date, in kilograms. */
+  weightsKg: Map<string, number>;
+  /** Calories logged per date; dates without logged food are absent. */
+  intake: Map<string, number>;
+  window: number;
+  unit: WeightUnit;
+}
+
+export interface TrendDay {
+  date: string;
+  weight: number | null;
+  trend: number | null;
+  calories: number | null;
+  tdee: number | null;
+}
+
+export function toKg(weight: number, unit: WeightUnit): number {
+  return unit === "lb" ? weight * KG_PER_LB : weight;
+}
+
+export function fromKg(weightKg: number, unit: WeightUnit): number {
+  return unit === "lb" ? weightKg / KG_PER_LB : weightKg;
+}
+
+/**
+ * Computes a smoothed weight trend and a rolling maintenance (TDEE) estimate for
+ * each date. Days without a weigh-in carry the trend forward; days without logged
+ * food are left out of the intake average rather than counted as zero.
+ */
+export function computeTrends(input: TrendInput): TrendDay[] {
+  const trendsKg: Array<number | null> = [];
+  let trend: number | null = null;
+  for (const date of input.dates) {
+    const weight = input.weightsKg.get(date);
+    if (typeof weight === "number") {
+      trend = trend === null ? weight : trend + TREND_ALPHA * (weight - trend);
+    }
+    trendsKg.push(trend);
+  }
+
+  return input.dates.map((date, index) => {
+    const weight = input.weightsKg.get(date);
+    const calories = input.intake.get(date);
+    return {
+      date,
+      weight: typeof weight === "number" ? numberOrZero(fromKg(weight, input.unit)) : null,
+      trend: trendsKg[index] === null ? null : numberOrZero(fromKg(trendsKg[index] as number, input.unit)),
+      calories: typeof calories === "number" ? calories : null,
+      tdee: estimateTdee_(input, trendsKg, index)
+    };
+  });
+}
+
+function estimateTdee_(input: TrendInput, trendsKg: Array<number | null>, endIndex: number): number | null {
+  const windowStart = endIndex - input.window + 1;
+  if (windowStart < 0) {
+    return null;
+  }
+  // Use the first day in the window that has a trend, so a late first weigh-in still yields an estimate.
+  let startIndex = windowStart;
+  while (startIndex < endIndex && trendsKg[startIndex] === null) {
+    startIndex += 1;
+  }
+  const startTrend = trendsKg[startIndex];
+  const endTrend = trendsKg[endIndex];
+  if (startTrend === null || endTrend === null || startIndex === endIndex) {
+    return null;
+  }
+
+  const logged = input.dates
+    .slice(windowStart, endIndex + 1)
+    .map((date) => input.intake.get(date))
+    .filter((value): value is number => typeof value === "number");
+  if (logged.length === 0) {
+    return null;
+  }
+
+  const averageIntake = logged.reduce((sum, value) => sum + value, 0) / logged.length;
+  const dailyChangeKg = (endTrend - startTrend) / (endIndex - startIndex);
+  return Math.round(averageIntake - dailyChangeKg * KCAL_PER_KG);
+}
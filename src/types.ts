@@ -1,10 +1,114 @@
-export type MealType = "breakfast" | "lunch" | "dinner" | "snacks";
+/** Name of one of the user's configured meal types; breakfast, lunch, dinner and snacks by default. */
+export type MealType = string;
+
+export interface MealTypeSetting {
+  name: MealType;
+  /** Other names accepted for this meal type, e.g. "supper" for dinner. */
+  aliases: string[];
+}
+
+export type MacroField = "protein" | "carbs" | "fat" | "fiber";
+
+export interface Nutrients {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface DailyTotals {
+  total_calories: number;
+  total_protein: number;
+  total_carbs: number;
+  total_fat: number;
+  total_fiber: number;
+}
+
+export type Weekday = "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday" | "sunday";
+
+export interface GoalTargets {
+  calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+}
+
+export interface GoalRequest extends GoalTargets {
+  effective_from: string;
+  weekdays?: Partial<Record<Weekday, GoalTargets>>;
+}
+
+export type WeightUnit = "kg" | "lb";
+
+export interface WeightRequest {
+  date: string;
+  weight: number;
+  unit?: WeightUnit;
+}
+
+/** When a day counts as logged for streaks and adherence. */
+export interface LoggingRule {
+  /** Meal types that need at least one entry. */
+  require_meals: MealType[];
+  min_calories: number;
+}
+
+export type WebhookEventType = "entry.created" | "entry.updated" | "entry.deleted" | "daily_total.changed";
+
+export interface WebhookRequest {
+  url: string;
+  /** Event types to receive; every type when omitted. */
+  events?: WebhookEventType[];
+}
+
+export interface WebhookDeliveriesQuery {
+  webhook_id?: string;
+  limit: number;
+}
+
+export interface ActivityRequest {
+  /** Defaults to today in the user's timezone. */
+  date?: string;
+  name: string;
+  duration_minutes?: number;
+  calories_burned: number;
+  source?: string;
+}
+
+export interface ActivityUpdateRequest {
+  activity_id: string;
+  updates: Partial<ActivityRequest>;
+}
+
+export interface SettingsRequest {
+  /** IANA timezone name used to decide what "today" is for the user. */
+  timezone?: string;
+  logging_rule?: LoggingRule;
+  /** Meal types in display order; defaults to breakfast, lunch, dinner and snacks. */
+  meal_types?: MealTypeSetting[];
+  /** Adds calories burned in activities to the day's remaining budget. */
+  count_burned_calories?: boolean;
+  /** Entries with a lower confidence wait in the review queue until confirmed; 0.7 by default. */
+  review_threshold?: number;
+}
 
 export interface LogItem {
   name: string;
   quantity?: string;
   calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
   confidence?: number;
+  /** References a saved food; its values replace `calories` and macros, scaled by `servings`. */
+  food_id?: string;
+  /** References a recipe; logs `servings` of it as one entry, or one entry per ingredient when `expand` is set. */
+  recipe_id?: string;
+  servings?: number;
+  expand?: boolean;
 }
 
 export interface LogRequest {
@@ -23,12 +127,199 @@ export interface UpdateRequest {
     item?: string;
     quantity?: string;
     calories?: number;
+    protein?: number;
+    carbs?: number;
+    fat?: number;
+    fiber?: number;
     confidence?: number;
     source?: string;
     raw_text?: string;
   };
 }
 
+export interface FoodRequest {
+  name: string;
+  quantity?: string;
+  calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+}
+
+export interface FoodUpdateRequest {
+  food_id: string;
+  updates: Partial<FoodRequest>;
+}
+
+export interface RecipeIngredient {
+  name: string;
+  quantity?: string;
+  calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+}
+
+export interface RecipeRequest {
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+}
+
+export interface RecipeUpdateRequest {
+  recipe_id: string;
+  updates: Partial<RecipeRequest>;
+}
+
+export interface ImportRequest {
+  csv: string;
+  format?: "native" | "myfitnesspal" | "auto";
+  dry_run?: boolean;
+}
+
 export interface DeleteRequest {
   entry_id: string;
 }
+
+/** Marks an entry as reviewed, replacing any of its nutrient values that are given. */
+export interface ConfirmRequest {
+  entry_id: string;
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+}
+
+export interface CopyRequest {
+  from_date: string;
+  /** Defaults to today in the user's timezone. */
+  to_date?: string;
+  /** Only copy entries from this meal; all meals when omitted. */
+  meal_type?: MealType;
+  /** Meal the copies are logged under; each copy keeps its original meal when omitted. */
+  to_meal_type?: MealType;
+}
+
+export type BatchOperationType = "update" | "move" | "delete";
+
+export interface BatchOperation {
+  op: BatchOperationType;
+  entry_id: string;
+  /** Fields to change, for `update`. */
+  updates?: UpdateRequest["updates"];
+  /** Target date, for `move`. */
+  date?: string;
+  /** Target meal, for `move`. */
+  meal_type?: MealType;
+}
+
+export interface BatchRequest {
+  operations: BatchOperation[];
+}
+
+export interface ReconcileRequest {
+  start: string;
+  end: string;
+  repair?: boolean;
+}
+
+/** Query parameters after schema validation; defaults declared in the route schemas are already applied. */
+export interface TimeZoneQuery {
+  tz?: string;
+}
+
+export interface DateQuery {
+  date: string;
+}
+
+export interface SummaryQuery extends DateQuery {
+  include_unconfirmed: boolean;
+}
+
+export interface RangeQuery {
+  start: string;
+  end: string;
+}
+
+export interface PageQuery {
+  limit: number;
+  offset: number;
+}
+
+export interface CursorPageQuery extends PageQuery {
+  /** `next_cursor` from the previous page. */
+  cursor?: string;
+}
+
+export interface SummaryRangeQuery extends RangeQuery {
+  include_empty: boolean;
+  group?: "meal_type" | "week" | "month";
+  week_start: Weekday;
+  include_unconfirmed: boolean;
+}
+
+export interface SummaryLastQuery extends TimeZoneQuery {
+  days: number;
+  include_empty: boolean;
+  include_unconfirmed: boolean;
+}
+
+export interface ExportQuery extends RangeQuery {
+  format: "csv" | "ndjson";
+  dataset: "entries" | "totals";
+}
+
+export interface ImportQuery {
+  format?: ImportRequest["format"];
+  dry_run: boolean;
+}
+
+export interface SearchQuery extends PageQuery {
+  q: string;
+  start?: string;
+  end?: string;
+  meal_type?: MealType;
+}
+
+export interface HistoryQuery {
+  entry_id: string;
+}
+
+export interface GoalsQuery extends TimeZoneQuery {
+  date?: string;
+}
+
+export interface FoodsQuery {
+  q?: string;
+}
+
+export interface TrendsQuery extends TimeZoneQuery {
+  start?: string;
+  end?: string;
+  days: number;
+  window: number;
+  unit?: WeightUnit;
+}
+
+export interface ReviewQuery extends TimeZoneQuery {
+  start?: string;
+  end?: string;
+  days: number;
+  /** Overrides the saved `review_threshold`. */
+  threshold?: number;
+  limit: number;
+}
+
+export interface AdherenceQuery extends TimeZoneQuery {
+  start?: string;
+  end?: string;
+  days: number;
+  /** Percentage either side of the calorie goal that still counts as on target. */
+  tolerance: number;
+  /** Comma-separated meal types; overrides the saved logging rule. */
+  require_meals?: string;
+  min_calories?: number;
+}
@@ -0,0 +1,225 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { StorageAdapter, Webhook, WebhookDelivery } from "./storage.js";
+import type { WebhookEventType } from "./types.js";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["entry.created", "entry.updated", "entry.deleted", "daily_total.changed"];
+
+/** Sent by `POST /webhooks/test`; webhooks receive it whatever events they subscribe to. */
+export const TEST_EVENT_TYPE = "webhook.test";
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType | typeof TEST_EVENT_TYPE;
+  created_at: string;
+  data: unknown;
+}
+
+export interface WebhookDeliveryOptions {
+  /** Extra attempts after one fails with a network error, a timeout, 429 or a 5xx response. */
+  retries: number;
+  /** Delay before the first retry; it doubles for each retry after that. */
+  backoffMs: number;
+  /** How long each attempt waits for a response. */
+  timeoutMs: number;
+}
+
+export const DEFAULT_DELIVERY_OPTIONS: WebhookDeliveryOptions = { retries: 3, backoffMs: 1000, timeoutMs: 5000 };
+
+/**
+ * Addresses webhooks may not reach unless private hosts are allowed: this machine, private and carrier-grade NAT
+ * ranges, and link-local ones such as the cloud metadata server at 169.254.169.254. `BlockList` checks
+ * IPv4-mapped IPv6 addresses against the IPv4 ranges.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export interface WebhookDispatcher {
+  /**
+   * Queues each event for every webhook of the user subscribed to its type and returns without
+   * waiting. Each webhook receives the events in the order given.
+   */
+  emit(userId: string, events: Array<{ type: WebhookEventType; data: unknown }>): void;
+  /** Delivers one event to one webhook, retrying as configured, and records the outcome in the delivery log. */
+  deliver(
+    userId: string,
+    webhook: Webhook,
+    event: WebhookEvent,
+    overrides?: Partial<WebhookDeliveryOptions>
+  ): Promise<WebhookDelivery>;
+  /** Resolves once every queued delivery has been attempted and logged. */
+  idle(): Promise<void>;
+}
+
+/** Whether a URL hostname is localhost or a literal private, loopback or link-local address. */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  return host === "localhost" || host.endsWith(".localhost") || isPrivateAddress_(host);
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * Signature sent in `X-Webhook-Signature`: an HMAC-SHA256 of `{timestamp}.{body}` keyed with the
+ * webhook's secret. Covering the timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function createWebhookEvent(type: WebhookEvent["type"], data: unknown, now = new Date()): WebhookEvent {
+  return { id: randomUUID(), type, created_at: now.toISOString(), data };
+}
+
+export function createWebhookDispatcher(
+  storage: StorageAdapter,
+  options: Partial<WebhookDeliveryOptions> & {
+    onError?: (err: unknown) => void;
+    /** Deliver to localhost and private networks too; for local development only. */
+    allowPrivateHosts?: boolean;
+  } = {}
+): WebhookDispatcher {
+  const { onError, allowPrivateHosts = false, ...deliveryOptions } = options;
+  const defaults: WebhookDeliveryOptions = { ...DEFAULT_DELIVERY_OPTIONS, ...deliveryOptions };
+  const pending = new Set<Promise<void>>();
+
+  async function deliver(
+    userId: string,
+    webhook: Webhook,
+    event: WebhookEvent,
+    overrides: Partial<WebhookDeliveryOptions> = {}
+  ): Promise<WebhookDelivery> {
+    const { retries, backoffMs, timeoutMs } = { ...defaults, ...overrides };
+    const body = JSON.stringify(event);
+    const startedAt = new Date().toISOString();
+    let attempts = 0;
+    let responseStatus: number | null = null;
+    // Checked again at delivery time because a public hostname can resolve to a private address.
+    const refused = allowPrivateHosts ? null : await privateHostError_(webhook.url);
+    let error: string | null = refused;
+
+    while (!refused) {
+      attempts += 1;
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      try {
+        const response = await fetch(webhook.url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-webhook-id": webhook.webhook_id,
+            "x-webhook-event": event.type,
+            "x-webhook-timestamp": timestamp,
+            "x-webhook-signature": signWebhook(webhook.secret, timestamp, body)
+          },
+          body,
+          signal: AbortSignal.timeout(timeoutMs)
+        });
+        await response.body?.cancel();
+        responseStatus = response.status;
+        error = response.ok ? null : `Receiver responded with HTTP ${response.status}`;
+        if (response.ok || !isRetryable_(response.status)) {
+          break;
+        }
+      } catch (err) {
+        responseStatus = null;
+        error = err instanceof Error ? err.message : String(err);
+      }
+      if (attempts > retries) {
+        break;
+      }
+      await sleep_(backoffMs * 2 ** (attempts - 1));
+    }
+
+    return storage.recordDelivery(userId, {
+      webhook_id: webhook.webhook_id,
+      event_id: event.id,
+      event_type: event.type,
+      url: webhook.url,
+      status: error ? "failed" : "succeeded",
+      attempts,
+      response_status: responseStatus,
+      error,
+      timestamp: startedAt,
+      completed_at: new Date().toISOString()
+    });
+  }
+
+  return {
+    emit(userId, events) {
+      if (events.length === 0) {
+        return;
+      }
+      const task = (async () => {
+        const webhooks = await storage.listWebhooks(userId);
+        const created = events.map(({ type, data }) => createWebhookEvent(type, data));
+        await Promise.all(
+          webhooks.map(async (webhook) => {
+            for (const event of created) {
+              if (webhook.events.includes(event.type as WebhookEventType)) {
+                await deliver(userId, webhook, event);
+              }
+            }
+          })
+        );
+      })().catch((err) => onError?.(err));
+      pending.add(task);
+      void task.finally(() => pending.delete(task));
+    },
+    deliver,
+    async idle() {
+      while (pending.size > 0) {
+        await Promise.all(pending);
+      }
+    }
+  };
+}
+
+/** Why a delivery to `url` is refused, or null when its host and the addresses it resolves to are public. */
+async function privateHostError_(url: string): Promise<string | null> {
+  const { hostname } = new URL(url);
+  if (isPrivateHost(hostname)) {
+    return `Refused to deliver to private host ${hostname}`;
+  }
+  if (isIP(hostname.replace(/^\[(.*)\]$/, "$1"))) {
+    return null;
+  }
+  // A lookup failure is left for fetch to report, so it is retried like any network error.
+  const addresses = await lookup(hostname, { all: true }).catch(() => []);
+  return addresses.some(({ address }) => isPrivateAddress_(address))
+    ? `Refused to deliver to ${hostname}: it resolves to a private address`
+    : null;
+}
+
+function isPrivateAddress_(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function isRetryable_(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep_(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { computeAdherence, isLoggedDay } from "../src/adherence.js";
+import { enumerateDates } from "../src/dates.js";
+import type { LoggingRule } from "../src/types.js";
+
+const ANY_CALORIES: LoggingRule = { require_meals: [], min_calories: 1 };
+
+function input(days: Record<string, { calories: number; meals: string[] }>, rule = ANY_CALORIES) {
+  return {
+    dates: enumerateDates("2026-02-01", "2026-02-07"),
+    calories: new Map(Object.entries(days).map(([date, day]) => [date, day.calories])),
+    meals: new Map(Object.entries(days).map(([date, day]) => [date, new Set(day.meals)])),
+    mealTypes: ["breakfast", "lunch", "dinner", "snacks"],
+    goals: new Map(enumerateDates("2026-02-01", "2026-02-07").map((date) => [date, 2000])),
+    rule,
+    tolerance: 10
+  };
+}
+
+describe("adherence", () => {
+  it("applies the logging rule", () => {
+    const rule: LoggingRule = { require_meals: ["breakfast", "dinner"], min_calories: 1200 };
+    expect(isLoggedDay(1500, new Set(["breakfast", "dinner"]), rule)).toBe(true);
+    expect(isLoggedDay(1500, new Set(["breakfast", "lunch"]), rule)).toBe(false);
+    expect(isLoggedDay(800, new Set(["breakfast", "dinner"]), rule)).toBe(false);
+  });
+
+  it("counts streaks, goal adherence and skipped meals", () => {
+    const report = computeAdherence(
+      input({
+        "2026-02-01": { calories: 2000, meals: ["breakfast", "dinner"] },
+        "2026-02-02": { calories: 2300, meals: ["breakfast", "lunch", "dinner"] },
+        "2026-02-03": { calories: 1500, meals: ["dinner"] },
+        "2026-02-05": { calories: 1900, meals: ["breakfast", "dinner"] },
+        "2026-02-06": { calories: 2100, meals: ["lunch", "dinner"] }
+      })
+    );
+
+    expect(report).toMatchObject({ days: 7, logged_days: 5 });
+    // 2026-02-07 is not logged yet, so the current streak runs through the day before.
+    expect(report.streaks).toEqual({ current: 2, longest: 3, longest_start: "2026-02-01", longest_end: "2026-02-03" });
+    expect(report.goal).toEqual({ days_with_goal: 5, within: 3, over: 1, under: 1, rate: 0.6 });
+    expect(report.skipped_meals).toEqual([
+      { meal_type: "snacks", days: 5, rate: 1 },
+      { meal_type: "lunch", days: 3, rate: 0.6 },
+      { meal_type: "breakfast", days: 2, rate: 0.4 }
+    ]);
+  });
+
+  it("breaks streaks on days that miss required meals", () => {
+    const report = computeAdherence(
+      input(
+        {
+          "2026-02-05": { calories: 2000, meals: ["breakfast", "dinner"] },
+          "2026-02-06": { calories: 2000, meals: ["lunch", "dinner"] },
+          "2026-02-07": { calories: 2000, meals: ["breakfast", "dinner"] }
+        },
+        { require_meals: ["breakfast", "dinner"], min_calories: 1 }
+      )
+    );
+
+    expect(report.logged_days).toBe(2);
+    expect(report.streaks).toMatchObject({ current: 1, longest: 1, longest_start: "2026-02-05" });
+    expect(report.goal.days_with_goal).toBe(2);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { formatCsvRow, parseCsv } from "../src/csv.js";
+import { parseImport } from "../src/import.js";
+
+describe("csv", () => {
+  it("formats rows with quoting", () => {
+    expect(formatCsvRow(["a", 1, undefined, 'say "hi"', "x,y", "line\nbreak"])).toBe(
+      'a,1,,"say ""hi""","x,y","line\nbreak"\r\n'
+    );
+  });
+
+  it("parses quoted fields and line endings", () => {
+    expect(parseCsv('\ufeffa,b\r\n"x, y","say ""hi"""\n\n1,\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"'],
+      ["1", ""]
+    ]);
+  });
+
+  it("maps MyFitnessPal-style rows and reports row errors", () => {
+    const csv = [
+      "Date,Meal,Food,Calories,Fat (g),Carbohydrates (g),Protein (g),Fiber",
+      "2024-03-01,Breakfast,Porridge,310,6,54,11,8",
+      "03/02/2024,Dinner,,640,20,70,35,9",
+      "2024-03-02,Elevenses,Cake,300,,,,",
+      "2024-03-03,Lunch,Soup,abc,,,,"
+    ].join("\n");
+
+    const result = parseImport(csv, { timestamp: "2024-04-01T00:00:00.000Z", source: "import" });
+    expect(result.format).toBe("myfitnesspal");
+    expect(result.entries).toHaveLength(2);
+    expect(result.entries[0]).toMatchObject({ date: "2024-03-01", meal_type: "breakfast", item: "Porridge", calories: 310, carbs: 54 });
+    expect(result.entries[1]).toMatchObject({ date: "2024-03-02", meal_type: "dinner", item: "Dinner (imported)" });
+    expect(result.errors.map((error) => error.row)).toEqual([4, 5]);
+    expect(result.errors[1].error).toBe("Invalid calories: abc");
+  });
+});
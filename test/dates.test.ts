@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { addDays, assertTimeZone, enumerateDates, isoWeek, startOfWeek, zonedNow } from "../src/dates.js";
+
+describe("dates", () => {
+  it("does calendar arithmetic independent of the local timezone", () => {
+    expect(addDays("2026-03-28", 2)).toBe("2026-03-30");
+    expect(addDays("2026-01-01", -1)).toBe("2025-12-31");
+    expect(enumerateDates("2026-02-27", "2026-03-01")).toEqual(["2026-02-27", "2026-02-28", "2026-03-01"]);
+    expect(() => enumerateDates("2026-03-02", "2026-03-01")).toThrow("start must be before end");
+  });
+
+  it("finds week starts and ISO week numbers", () => {
+    expect(startOfWeek("2026-02-04")).toBe("2026-02-02");
+    expect(startOfWeek("2026-02-04", "sunday")).toBe("2026-02-01");
+    expect(startOfWeek("2026-02-01", "sunday")).toBe("2026-02-01");
+    expect(isoWeek("2026-02-04")).toBe("2026-W06");
+    expect(isoWeek("2027-01-01")).toBe("2026-W53");
+    expect(isoWeek("2024-12-30")).toBe("2025-W01");
+  });
+
+  it("reports the local date, time and offset in a timezone", () => {
+    const now = new Date("2026-02-03T23:30:00Z");
+    expect(zonedNow("Europe/Berlin", now)).toEqual({
+      timezone: "Europe/Berlin",
+      date: "2026-02-04",
+      time: "00:30:00",
+      utc_offset: "+01:00"
+    });
+    expect(zonedNow("UTC", now).utc_offset).toBe("+00:00");
+    expect(zonedNow("America/New_York", now).date).toBe("2026-02-03");
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(() => assertTimeZone("Mars/Olympus")).toThrow("Invalid timezone");
+  });
+});
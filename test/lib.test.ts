@@ -1,5 +1,21 @@
 import { describe, it, expect } from "vitest";
-import { normalizeDate, normalizeMealType, numberOrZero, validateLogRequest, validateUpdateRequest } from "../src/lib.js";
+import {
+  decodeCursor,
+  encodeCursor,
+  needsReview,
+  normalizeDate,
+  normalizeMealType,
+  numberOrZero,
+  parseAuthTokens,
+  remainingBudget,
+  resolveGoal,
+  toPageRequest,
+  validateConfirmRequest,
+  validateLogRequest,
+  validateMealTypes,
+  validateUpdateRequest
+} from "../src/lib.js";
+import type { LogItem } from "../src/types.js";
 
 describe("lib", () => {
   it("normalizes date strings", () => {
@@ -13,6 +29,29 @@ describe("lib", () => {
 
   it("validates meal type", () => {
     expect(normalizeMealType("Breakfast")).toBe("breakfast");
+    expect(normalizeMealType(" Supper ")).toBe("dinner");
+    expect(() => normalizeMealType("brunch")).toThrow("Invalid meal_type. Use breakfast, lunch, dinner, or snacks.");
+  });
+
+  it("resolves configured meal types and aliases", () => {
+    const mealTypes = validateMealTypes([
+      { name: "Breakfast", aliases: [] },
+      { name: "Second  breakfast", aliases: ["elevenses"] },
+      { name: "pre-workout", aliases: ["Pre workout", "pre-workout"] }
+    ]);
+    expect(mealTypes).toEqual([
+      { name: "breakfast", aliases: [] },
+      { name: "second breakfast", aliases: ["elevenses"] },
+      { name: "pre-workout", aliases: ["pre workout"] }
+    ]);
+    expect(normalizeMealType("ELEVENSES", mealTypes)).toBe("second breakfast");
+    expect(normalizeMealType("Pre Workout", mealTypes)).toBe("pre-workout");
+    expect(() => normalizeMealType("dinner", mealTypes)).toThrow(
+      "Invalid meal_type. Use breakfast, second breakfast, or pre-workout."
+    );
+    expect(() => validateMealTypes([{ name: "lunch", aliases: [] }, { name: "dinner", aliases: ["Lunch"] }])).toThrow(
+      "Duplicate meal type or alias: lunch"
+    );
   });
 
   it("rounds numbers", () => {
@@ -23,11 +62,13 @@ describe("lib", () => {
     const payload = validateLogRequest({
       date: "2026-02-03",
       meal_type: "lunch",
-      items: [{ name: "Banana", calories: 105 }]
+      items: [{ name: "Banana", calories: 105, carbs: 27.04 }]
     });
 
     expect(payload.meal_type).toBe("lunch");
     expect(payload.items[0].calories).toBe(105);
+    expect(payload.items[0].carbs).toBe(27.04);
+    expect(payload.items[0].protein).toBe(0);
   });
 
   it("validates update request", () => {
@@ -39,4 +80,77 @@ describe("lib", () => {
     expect(payload.updates.calories).toBe(123.46);
     expect(payload.updates.meal_type).toBe("dinner");
   });
+
+  it("validates confirmations and flags unreviewed low-confidence entries", () => {
+    expect(validateConfirmRequest({ entry_id: "abc", calories: 410.126 })).toEqual({ entry_id: "abc", calories: 410.13 });
+    expect(validateConfirmRequest({ entry_id: "abc" })).toEqual({ entry_id: "abc" });
+    expect(() => validateConfirmRequest({ entry_id: "abc", protein: -1 })).toThrow(/protein must be a non-negative number/);
+
+    expect(needsReview({ confidence: 0.5 }, 0.7)).toBe(true);
+    expect(needsReview({ confidence: 0.7 }, 0.7)).toBe(false);
+    expect(needsReview({ confidence: 0.5, reviewed_at: "2026-02-03T12:00:00.000Z" }, 0.7)).toBe(false);
+    expect(needsReview({}, 0.7)).toBe(false);
+  });
+
+  it("parses auth tokens", () => {
+    expect(parseAuthTokens("alice:abc123, bob:def456")).toEqual({ abc123: "alice", def456: "bob" });
+    expect(() => parseAuthTokens("alice")).toThrow("Invalid auth token entry");
+  });
+
+  it("resolves the goal in force on a date", () => {
+    const goals = [
+      { effective_from: "2026-01-01", calories: 2000 },
+      { effective_from: "2026-02-01", calories: 1800, weekdays: { sunday: { calories: 2400, protein: 100 } } }
+    ];
+
+    expect(resolveGoal(goals, "2025-12-31")).toBeNull();
+    expect(resolveGoal(goals, "2026-01-31")).toEqual({ calories: 2000 });
+    expect(resolveGoal(goals, "2026-02-02")).toEqual({ calories: 1800 });
+    expect(resolveGoal(goals, "2026-02-08")).toEqual({ calories: 2400, protein: 100 });
+  });
+
+  it("computes remaining budget", () => {
+    const remaining = remainingBudget(
+      { calories: 2000, protein: 120 },
+      { total_calories: 1500.5, total_protein: 130, total_carbs: 0, total_fat: 0, total_fiber: 0 }
+    );
+    expect(remaining).toEqual({ calories: 499.5, protein: -10 });
+  });
+
+  it("resolves saved food references in log requests", () => {
+    const food = {
+      food_id: "food-1",
+      name: "Oat latte",
+      quantity: "12oz",
+      calories: 130,
+      protein: 3.5,
+      carbs: 16,
+      fat: 5,
+      fiber: 1,
+      created_at: "2026-02-01T00:00:00.000Z",
+      updated_at: "2026-02-01T00:00:00.000Z"
+    };
+    const payload = validateLogRequest(
+      {
+        date: "2026-02-03",
+        meal_type: "breakfast",
+        items: [{ food_id: "food-1", servings: 2 } as LogItem]
+      },
+      { foods: { "food-1": food } }
+    );
+
+    expect(payload.items[0]).toMatchObject({ name: "Oat latte", quantity: "2 x 12oz", calories: 260, protein: 7, confidence: 1 });
+    expect(() =>
+      validateLogRequest({ date: "2026-02-03", meal_type: "lunch", items: [{ food_id: "missing" } as LogItem] })
+    ).toThrow("Unknown food_id: missing");
+  });
+
+  it("round-trips page cursors and rejects tampered ones", () => {
+    const cursor = { date: "2026-02-03", timestamp: "2026-02-03T12:00:00.000Z", entry_id: "entry-1" };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid cursor");
+    expect(toPageRequest({ limit: 10, offset: 5 })).toEqual({ limit: 10, offset: 5 });
+    expect(toPageRequest({ limit: 10, offset: 0, cursor: encodeCursor(cursor) })).toEqual({ limit: 10, cursor });
+    expect(() => toPageRequest({ limit: 10, offset: 5, cursor: encodeCursor(cursor) })).toThrow("not both");
+  });
 });
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { enumerateDates } from "../src/dates.js";
+import { groupTotals, summaryStats } from "../src/rollups.js";
+import type { DailyTotalRow } from "../src/storage.js";
+
+function row(date: string, calories: number, protein = 0): DailyTotalRow {
+  return { date, total_calories: calories, total_protein: protein, total_carbs: 0, total_fat: 0, total_fiber: 0 };
+}
+
+describe("rollups", () => {
+  it("groups days into weeks clipped to the range, averaging over logged days", () => {
+    const rows = [row("2026-02-01", 2000, 100), row("2026-02-02", 1800, 90), row("2026-02-04", 2200, 110)];
+    const periods = groupTotals(rows, enumerateDates("2026-02-01", "2026-02-09"), "week");
+
+    expect(periods.map((period) => [period.period, period.iso_week, period.start, period.end, period.days])).toEqual([
+      ["2026-01-26", "2026-W05", "2026-02-01", "2026-02-01", 1],
+      ["2026-02-02", "2026-W06", "2026-02-02", "2026-02-08", 7],
+      ["2026-02-09", "2026-W07", "2026-02-09", "2026-02-09", 1]
+    ]);
+    expect(periods[1]).toMatchObject({ logged_days: 2, total_calories: 4000, total_protein: 200 });
+    expect(periods[1].average).toMatchObject({ calories: 2000, protein: 100 });
+    expect(periods[2]).toMatchObject({ logged_days: 0, total_calories: 0, average: { calories: 0 } });
+  });
+
+  it("supports other week starts and calendar months", () => {
+    const rows = [row("2026-01-31", 1500), row("2026-02-01", 2500)];
+    const sundayWeeks = groupTotals(rows, enumerateDates("2026-01-31", "2026-02-01"), "week", "sunday");
+    expect(sundayWeeks.map((period) => period.period)).toEqual(["2026-01-25", "2026-02-01"]);
+    expect(sundayWeeks[0].iso_week).toBeUndefined();
+
+    const months = groupTotals(rows, enumerateDates("2026-01-31", "2026-02-01"), "month");
+    expect(months.map((period) => [period.period, period.total_calories])).toEqual([
+      ["2026-01", 1500],
+      ["2026-02", 2500]
+    ]);
+  });
+
+  it("computes calorie statistics over logged days", () => {
+    const dates = enumerateDates("2026-02-01", "2026-02-07");
+    const rows = [
+      row("2026-02-01", 2000),
+      row("2026-02-02", 1500),
+      row("2026-02-03", 0),
+      row("2026-02-05", 2500),
+      row("2026-02-06", 1500)
+    ];
+    const stats = summaryStats(rows, dates);
+
+    expect(stats).toEqual({
+      days: 7,
+      logged_days: 4,
+      empty_days: 3,
+      mean: 1875,
+      median: 1750,
+      min: { date: "2026-02-02", calories: 1500 },
+      max: { date: "2026-02-05", calories: 2500 },
+      std_dev: 414.58
+    });
+    expect(summaryStats([], dates)).toMatchObject({ logged_days: 0, empty_days: 7, mean: null, min: null, std_dev: null });
+  });
+});
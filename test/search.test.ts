@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { matchesSearch, searchTerms, searchTokens, tokenize } from "../src/search.js";
+
+describe("search", () => {
+  it("tokenizes case- and accent-insensitively", () => {
+    expect(tokenize("Crème Brûlée, 2x  CRÈME")).toEqual(["creme", "brulee", "2x"]);
+    expect(searchTerms("a Pizza!")).toEqual(["pizza"]);
+  });
+
+  it("matches entries whose words start with every term", () => {
+    const tokens = searchTokens({ item: "Pepperoni pizza", raw_text: "two slices at lunch" });
+
+    expect(matchesSearch(tokens, searchTerms("pizz"))).toBe(true);
+    expect(matchesSearch(tokens, searchTerms("PIZZA slice"))).toBe(true);
+    expect(matchesSearch(tokens, searchTerms("pizza dinner"))).toBe(false);
+    expect(matchesSearch(tokens, searchTerms("izza"))).toBe(false);
+  });
+});
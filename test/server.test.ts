@@ -1,14 +1,23 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { buildServer } from "../src/server.js";
-import { createMemoryStorage } from "../src/storage.js";
+import { dateInTimeZone } from "../src/dates.js";
+import { requestHash } from "../src/idempotency.js";
+import { createMemoryStorage, MAX_CREATE_ENTRIES } from "../src/storage.js";
+import { signWebhook } from "../src/webhooks.js";
 
 const AUTH = "test-secret";
+const OTHER_AUTH = "other-secret";
 
 describe("server", () => {
   let app: ReturnType<typeof buildServer>;
 
   beforeEach(() => {
-    app = buildServer({ authToken: AUTH, storage: createMemoryStorage() });
+    app = buildServer({
+      authTokens: { [AUTH]: "user-1", [OTHER_AUTH]: "user-2" },
+      storage: createMemoryStorage()
+    });
   });
 
   it("rejects requests without auth header", async () => {
@@ -16,6 +25,51 @@ describe("server", () => {
     expect(res.statusCode).toBe(401);
   });
 
+  it("rejects unknown tokens", async () => {
+    const res = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": "not-a-token" }
+    });
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("isolates entries and totals between users", async () => {
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "breakfast",
+        items: [{ name: "Banana", calories: 105 }]
+      }
+    });
+    const entryId = logRes.json().entry_ids[0];
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": OTHER_AUTH }
+    });
+    expect(summaryRes.json().total_calories).toBe(0);
+
+    const listRes = await app.inject({
+      method: "GET",
+      url: "/list?date=2026-02-03",
+      headers: { "x-auth-token": OTHER_AUTH }
+    });
+    expect(listRes.json().entries.length).toBe(0);
+
+    const deleteRes = await app.inject({
+      method: "POST",
+      url: "/delete",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { entry_id: entryId }
+    });
+    expect(deleteRes.statusCode).toBe(404);
+  });
+
   it("logs and summarizes entries", async () => {
     const logRes = await app.inject({
       method: "POST",
@@ -42,6 +96,50 @@ describe("server", () => {
     expect(summaryRes.json().total_calories).toBe(105);
   });
 
+  it("tracks macros through log, update and summaries", async () => {
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "lunch",
+        items: [
+          { name: "Chicken wrap", calories: 450, protein: 32, carbs: 40, fat: 15, fiber: 4 },
+          { name: "Apple", calories: 95, carbs: 25, fiber: 4.4 }
+        ]
+      }
+    });
+    expect(logRes.json().total_protein).toBe(32);
+    expect(logRes.json().total_fiber).toBe(8.4);
+
+    const entryId = logRes.json().entry_ids[0];
+    const updateRes = await app.inject({
+      method: "POST",
+      url: "/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId, updates: { protein: 35, date: "2026-02-04" } }
+    });
+    expect(updateRes.json().total_protein).toBe(35);
+    expect(updateRes.json().total_carbs).toBe(40);
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json()).toMatchObject({ total_calories: 95, total_protein: 0, total_carbs: 25, total_fiber: 4.4 });
+
+    const rangeRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-03&end=2026-02-04&group=meal_type",
+      headers: { "x-auth-token": AUTH }
+    });
+    const day = rangeRes.json().totals.find((item: { date: string }) => item.date === "2026-02-04");
+    expect(day.totals.lunch).toBe(450);
+    expect(day.macros.lunch).toEqual({ protein: 35, carbs: 40, fat: 15, fiber: 4 });
+  });
+
   it("lists entries with limit", async () => {
     await app.inject({
       method: "POST",
@@ -198,4 +296,1743 @@ describe("server", () => {
     expect(deleteRes.statusCode).toBe(200);
     expect(deleteRes.json().total_calories).toBe(0);
   });
+
+  it("reports goals, remaining budget and per-day status", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/goals",
+      headers: { "x-auth-token": AUTH },
+      payload: { effective_from: "2026-01-01", calories: 2000, protein: 120 }
+    });
+    await app.inject({
+      method: "POST",
+      url: "/goals",
+      headers: { "x-auth-token": AUTH },
+      payload: { effective_from: "2026-02-03", calories: 1800, weekdays: { saturday: { calories: 2200 } } }
+    });
+
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-02",
+        meal_type: "dinner",
+        items: [{ name: "Curry", calories: 2100, protein: 40 }]
+      }
+    });
+    expect(logRes.json().goal).toEqual({ calories: 2000, protein: 120 });
+    expect(logRes.json().remaining).toEqual({ calories: -100, protein: 80 });
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-07",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json().goal).toEqual({ calories: 2200 });
+    expect(summaryRes.json().remaining).toEqual({ calories: 2200 });
+
+    const rangeRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-02&end=2026-02-03&include_empty=true",
+      headers: { "x-auth-token": AUTH }
+    });
+    const [monday, tuesday] = rangeRes.json().totals;
+    expect(monday).toMatchObject({ date: "2026-02-02", status: "over", goal: { calories: 2000 } });
+    expect(tuesday).toMatchObject({ date: "2026-02-03", status: "under", goal: { calories: 1800 } });
+  });
+
+  it("reports a null status in range summaries on dates without a goal", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "dinner", items: [{ name: "Curry", calories: 900 }] }
+    });
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-03&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(res.json().totals[0]).toMatchObject({ date: "2026-02-03", total_calories: 900, status: null });
+  });
+
+  it("rejects invalid goals", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/goals",
+      headers: { "x-auth-token": AUTH },
+      payload: { effective_from: "2026-02-03", calories: -5 }
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("logs saved foods by reference", async () => {
+    const foodRes = await app.inject({
+      method: "POST",
+      url: "/foods",
+      headers: { "x-auth-token": AUTH },
+      payload: { name: "Oat latte", quantity: "12oz", calories: 130, protein: 3.5, carbs: 16 }
+    });
+    expect(foodRes.statusCode).toBe(200);
+    const foodId = foodRes.json().food.food_id;
+
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "breakfast",
+        items: [{ food_id: foodId, servings: 1.5 }]
+      }
+    });
+    expect(logRes.statusCode).toBe(200);
+    expect(logRes.json().total_calories).toBe(195);
+    expect(logRes.json().total_protein).toBe(5.25);
+
+    await app.inject({
+      method: "POST",
+      url: "/foods/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { food_id: foodId, updates: { calories: 150 } }
+    });
+
+    const listRes = await app.inject({
+      method: "GET",
+      url: "/list?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    const [entry] = listRes.json().entries;
+    expect(entry).toMatchObject({ item: "Oat latte", quantity: "1.5 x 12oz", calories: 195, food_id: foodId });
+
+    const otherUserRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { date: "2026-02-03", meal_type: "breakfast", items: [{ food_id: foodId }] }
+    });
+    expect(otherUserRes.statusCode).toBe(400);
+    expect(otherUserRes.json().error).toContain("Unknown food_id");
+  });
+
+  it("deletes saved foods", async () => {
+    const foodRes = await app.inject({
+      method: "POST",
+      url: "/foods",
+      headers: { "x-auth-token": AUTH },
+      payload: { name: "Granola bar", calories: 190 }
+    });
+    const foodId = foodRes.json().food.food_id;
+
+    const deleteRes = await app.inject({
+      method: "POST",
+      url: "/foods/delete",
+      headers: { "x-auth-token": AUTH },
+      payload: { food_id: foodId }
+    });
+    expect(deleteRes.statusCode).toBe(200);
+
+    const listRes = await app.inject({ method: "GET", url: "/foods", headers: { "x-auth-token": AUTH } });
+    expect(listRes.json().foods).toEqual([]);
+  });
+
+  it("logs recipes by servings without following later recipe edits", async () => {
+    const recipeRes = await app.inject({
+      method: "POST",
+      url: "/recipes",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        name: "Chili",
+        servings: 4,
+        ingredients: [
+          { name: "Beef mince", quantity: "500g", calories: 1250, protein: 100 },
+          { name: "Kidney beans", quantity: "400g", calories: 350, protein: 24, fiber: 24 }
+        ]
+      }
+    });
+    expect(recipeRes.statusCode).toBe(200);
+    const recipe = recipeRes.json().recipe;
+    expect(recipe.per_serving.calories).toBe(400);
+
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "dinner", items: [{ recipe_id: recipe.recipe_id, servings: 1.5 }] }
+    });
+    expect(logRes.json().total_calories).toBe(600);
+    expect(logRes.json().total_protein).toBe(46.5);
+    expect(logRes.json().entry_ids.length).toBe(1);
+
+    const expandRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-04", meal_type: "lunch", items: [{ recipe_id: recipe.recipe_id, servings: 1, expand: true }] }
+    });
+    expect(expandRes.json().entry_ids.length).toBe(2);
+    expect(expandRes.json().total_calories).toBe(400);
+
+    await app.inject({
+      method: "POST",
+      url: "/recipes/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { recipe_id: recipe.recipe_id, updates: { servings: 8 } }
+    });
+
+    const listRes = await app.inject({
+      method: "GET",
+      url: "/list?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(listRes.json().entries[0]).toMatchObject({ item: "Chili", quantity: "1.5 servings", calories: 600 });
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json().total_calories).toBe(600);
+  });
+
+  it("rejects recipes without ingredients", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/recipes",
+      headers: { "x-auth-token": AUTH },
+      payload: { name: "Air", servings: 1, ingredients: [] }
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("records revisions and undoes updates, deletes and creates", async () => {
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "dinner", items: [{ name: "Pasta", calories: 400 }] }
+    });
+    const entryId = logRes.json().entry_ids[0];
+
+    await app.inject({
+      method: "POST",
+      url: "/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId, updates: { calories: 650, date: "2026-02-04" } }
+    });
+    await app.inject({
+      method: "POST",
+      url: "/delete",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId }
+    });
+
+    const historyRes = await app.inject({
+      method: "GET",
+      url: `/history?entry_id=${entryId}`,
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(historyRes.json().revisions.map((revision: { action: string }) => revision.action)).toEqual([
+      "create",
+      "update",
+      "delete"
+    ]);
+    expect(historyRes.json().revisions[1].before.calories).toBe(400);
+    expect(historyRes.json().revisions[1].after.calories).toBe(650);
+
+    const undoDeleteRes = await app.inject({
+      method: "POST",
+      url: "/undo",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId }
+    });
+    expect(undoDeleteRes.json()).toMatchObject({ undone: "delete", date: "2026-02-04", total_calories: 650 });
+
+    const undoUpdateRes = await app.inject({
+      method: "POST",
+      url: "/undo",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId }
+    });
+    expect(undoUpdateRes.json()).toMatchObject({ undone: "update", date: "2026-02-03", total_calories: 400 });
+
+    const movedDayRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-04",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(movedDayRes.json().total_calories).toBe(0);
+
+    const undoCreateRes = await app.inject({
+      method: "POST",
+      url: "/undo",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId }
+    });
+    expect(undoCreateRes.json()).toMatchObject({ undone: "create", entry: null, total_calories: 0 });
+
+    const nothingLeftRes = await app.inject({
+      method: "POST",
+      url: "/undo",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: entryId }
+    });
+    expect(nothingLeftRes.statusCode).toBe(404);
+  });
+
+  it("exports entries and totals as csv and ndjson", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "lunch",
+        raw_text: "soup, bread",
+        items: [
+          { name: "Soup, tomato", calories: 150 },
+          { name: "Bread", calories: 90 }
+        ]
+      }
+    });
+
+    const csvRes = await app.inject({
+      method: "GET",
+      url: "/export?start=2026-02-01&end=2026-02-28",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(csvRes.statusCode).toBe(200);
+    expect(csvRes.headers["content-type"]).toContain("text/csv");
+    const lines = csvRes.body.trim().split("\r\n");
+    expect(lines[0]).toBe(
+      "entry_id,timestamp,date,meal_type,item,quantity,calories,protein,carbs,fat,fiber,confidence,source,raw_text"
+    );
+    expect(lines.length).toBe(3);
+    expect(csvRes.body).toContain('"Soup, tomato"');
+
+    const ndjsonRes = await app.inject({
+      method: "GET",
+      url: "/export?start=2026-02-01&end=2026-02-28&format=ndjson&dataset=totals",
+      headers: { "x-auth-token": AUTH }
+    });
+    const rows = ndjsonRes.body.trim().split("\n").map((line) => JSON.parse(line));
+    expect(rows).toEqual([
+      { date: "2026-02-03", total_calories: 240, total_protein: 0, total_carbs: 0, total_fat: 0, total_fiber: 0 }
+    ]);
+  });
+
+  it("rejects unknown export formats", async () => {
+    const res = await app.inject({
+      method: "GET",
+      url: "/export?start=2026-02-01&end=2026-02-28&format=xml",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("imports csv with dry run and updates totals", async () => {
+    const csv = [
+      "entry_id,timestamp,date,meal_type,item,quantity,calories,protein,carbs,fat,fiber,confidence,source,raw_text",
+      "old-1,2024-03-01T08:00:00.000Z,2024-03-01,breakfast,Toast,2 slices,180,6,30,2,3,0.9,gpt,toast",
+      "old-2,2024-03-01T19:00:00.000Z,2024-03-01,Dinner,Stew,,520,30,40,22,6,0.8,gpt,",
+      "old-3,2024-03-02T12:00:00.000Z,2024-03-02,lunch,Salad,,250,,,,,,,"
+    ].join("\n");
+
+    const dryRunRes = await app.inject({
+      method: "POST",
+      url: "/import",
+      headers: { "x-auth-token": AUTH },
+      payload: { csv, dry_run: true }
+    });
+    expect(dryRunRes.json()).toMatchObject({ ok: true, dry_run: true, format: "native", valid: 3, imported: 0 });
+
+    const emptyRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2024-03-01",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(emptyRes.json().total_calories).toBe(0);
+
+    const importRes = await app.inject({
+      method: "POST",
+      url: "/import?format=native",
+      headers: { "x-auth-token": AUTH, "content-type": "text/csv" },
+      payload: csv
+    });
+    expect(importRes.json()).toMatchObject({ ok: true, imported: 3, dates: ["2024-03-01", "2024-03-02"] });
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2024-03-01",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json()).toMatchObject({ total_calories: 700, total_protein: 36 });
+  });
+
+  it("rejects imports with invalid rows", async () => {
+    const csv = "Date,Meal,Food,Calories\n2024-03-01,Brunch,Eggs,300\n2024-03-01,Lunch,Soup,200";
+    const res = await app.inject({
+      method: "POST",
+      url: "/import",
+      headers: { "x-auth-token": AUTH },
+      payload: { csv }
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().errors).toEqual([
+      { row: 2, error: "Invalid meal_type. Use breakfast, lunch, dinner, or snacks." }
+    ]);
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2024-03-01",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json().total_calories).toBe(0);
+  });
+
+  it("imports more rows than one write holds, a date at a time", async () => {
+    const rows = [
+      ...Array.from({ length: MAX_CREATE_ENTRIES + 4 }, (_, index) => `2024-03-01,Lunch,Soup ${index},10`),
+      ...Array.from({ length: 30 }, (_, index) => `2024-03-02,Dinner,Stew ${index},20`)
+    ];
+    const csv = ["Date,Meal,Food,Calories", ...rows].join("\n");
+
+    const dryRunRes = await app.inject({
+      method: "POST",
+      url: "/import",
+      headers: { "x-auth-token": AUTH },
+      payload: { csv: `${csv}\n2024-03-02,Brunch,Eggs,300`, dry_run: true }
+    });
+    expect(dryRunRes.statusCode).toBe(200);
+    expect(dryRunRes.json()).toMatchObject({ ok: false, dry_run: true, valid: rows.length, imported: 0 });
+    expect(dryRunRes.json().errors).toEqual([{ row: rows.length + 2, error: expect.stringContaining("Invalid meal_type") }]);
+
+    const importRes = await app.inject({ method: "POST", url: "/import", headers: { "x-auth-token": AUTH }, payload: { csv } });
+    expect(importRes.statusCode).toBe(200);
+    expect(importRes.json()).toMatchObject({ ok: true, imported: rows.length, dates: ["2024-03-01", "2024-03-02"] });
+
+    const rangeRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2024-03-01&end=2024-03-02",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(rangeRes.json().totals.map((row: { total_calories: number }) => row.total_calories)).toEqual([
+      (MAX_CREATE_ENTRIES + 4) * 10,
+      600
+    ]);
+
+    const copyRes = await app.inject({
+      method: "POST",
+      url: "/copy",
+      headers: { "x-auth-token": AUTH },
+      payload: { from_date: "2024-03-01", to_date: "2024-03-03" }
+    });
+    expect(copyRes.statusCode).toBe(200);
+    expect(copyRes.json()).toMatchObject({ total_calories: (MAX_CREATE_ENTRIES + 4) * 10 });
+    expect(copyRes.json().entry_ids).toHaveLength(MAX_CREATE_ENTRIES + 4);
+  });
+
+  it("reports how much of an import was written when a later write fails", async () => {
+    const storage = createMemoryStorage();
+    let writes = 0;
+    const server = buildServer({
+      authTokens: { [AUTH]: "user-1" },
+      storage: {
+        ...storage,
+        createEntries: async (userId, entries, meta) => {
+          writes += 1;
+          if (writes > 1) {
+            throw new Error("Firestore unavailable");
+          }
+          return storage.createEntries(userId, entries, meta);
+        }
+      }
+    });
+    const csv = [
+      "Date,Meal,Food,Calories",
+      ...Array.from({ length: 100 }, (_, index) => `2024-03-01,Lunch,Soup ${index},10`),
+      ...Array.from({ length: 100 }, (_, index) => `2024-03-02,Lunch,Soup ${index},10`)
+    ].join("\n");
+
+    try {
+      const res = await server.inject({ method: "POST", url: "/import", headers: { "x-auth-token": AUTH }, payload: { csv } });
+      expect(res.statusCode).toBe(400);
+      expect(res.json()).toMatchObject({ ok: false, valid: 200, imported: 100 });
+      expect(res.json().error).toBe("Firestore unavailable; 100 of 200 entries were saved before the failure");
+      expect((await storage.getTotal("user-1", "2024-03-01")).total_calories).toBe(1000);
+      expect((await storage.getTotal("user-1", "2024-03-02")).total_calories).toBe(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("logs weights and reports trends", async () => {
+    for (const [date, weight] of [
+      ["2026-03-01", 80],
+      ["2026-03-05", 79.6],
+      ["2026-03-10", 79.4]
+    ] as const) {
+      const res = await app.inject({
+        method: "POST",
+        url: "/weights",
+        headers: { "x-auth-token": AUTH },
+        payload: { date, weight, unit: "kg" }
+      });
+      expect(res.statusCode).toBe(200);
+    }
+    for (const date of ["2026-03-02", "2026-03-06", "2026-03-09"]) {
+      await app.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: { date, meal_type: "dinner", items: [{ name: "Dinner", calories: 2000 }] }
+      });
+    }
+
+    const weightsRes = await app.inject({
+      method: "GET",
+      url: "/weights?start=2026-03-01&end=2026-03-31",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(weightsRes.json().weights.length).toBe(3);
+
+    const trendsRes = await app.inject({
+      method: "GET",
+      url: "/trends?start=2026-03-08&end=2026-03-10&window=7",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(trendsRes.statusCode).toBe(200);
+    const body = trendsRes.json();
+    expect(body.days.map((day: { date: string }) => day.date)).toEqual(["2026-03-08", "2026-03-09", "2026-03-10"]);
+    expect(body.days[0].weight).toBeNull();
+    expect(body.days[0].trend).not.toBeNull();
+    expect(body.days[1].calories).toBe(2000);
+    expect(body.days[0].calories).toBeNull();
+    expect(body.summary.weigh_ins).toBe(1);
+    expect(body.summary.logged_days).toBe(1);
+    expect(body.summary.tdee).toBeGreaterThan(2000);
+  });
+
+  it("rejects invalid weight units", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/weights",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-03-01", weight: 12, unit: "stone" }
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("reports local time for a requested timezone", async () => {
+    const res = await app.inject({ method: "GET", url: "/time", headers: { "x-timezone": "Europe/London" } });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ timezone: "Europe/London", date: dateInTimeZone(new Date(), "Europe/London") });
+    expect(res.json().utc_offset).toMatch(/^[+-]\d{2}:\d{2}$/);
+
+    const invalidRes = await app.inject({ method: "GET", url: "/time?tz=Nowhere/Special" });
+    expect(invalidRes.statusCode).toBe(400);
+  });
+
+  it("uses the user's timezone for /time and for logs without a date", async () => {
+    const timeZone = "Pacific/Kiritimati";
+    const settingsRes = await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: { timezone: timeZone }
+    });
+    expect(settingsRes.json().settings.timezone).toBe(timeZone);
+
+    const timeRes = await app.inject({ method: "GET", url: "/time", headers: { "x-auth-token": AUTH } });
+    expect(timeRes.json()).toMatchObject({ timezone: timeZone, utc_offset: "+14:00" });
+
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { meal_type: "snacks", items: [{ name: "Crisps", calories: 180 }] }
+    });
+    expect(logRes.json().date).toBe(dateInTimeZone(new Date(), timeZone));
+
+    const lastRes = await app.inject({
+      method: "GET",
+      url: "/summary-last?days=1",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(lastRes.json().totals[0]).toMatchObject({ date: dateInTimeZone(new Date(), timeZone), total_calories: 180 });
+  });
+
+  it("reports and repairs daily totals that disagree with entries", async () => {
+    const storage = createMemoryStorage();
+    const server = buildServer({ authTokens: { [AUTH]: "user-1", [OTHER_AUTH]: "user-2" }, storage });
+    await server.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "lunch",
+        items: [{ name: "Soup", calories: 250, protein: 10 }]
+      }
+    });
+    await storage.setTotal("user-1", "2026-02-03", { calories: 290, protein: 10, carbs: 0, fat: 0, fiber: 0 });
+    await storage.setTotal("user-1", "2026-02-05", { calories: 100, protein: 0, carbs: 0, fat: 0, fiber: 0 });
+
+    const checkRes = await server.inject({
+      method: "POST",
+      url: "/admin/reconcile",
+      headers: { "x-auth-token": AUTH },
+      payload: { start: "2026-02-01", end: "2026-02-07" }
+    });
+    expect(checkRes.statusCode).toBe(200);
+    expect(checkRes.json()).toMatchObject({ checked_dates: 2, repaired: false });
+    expect(checkRes.json().mismatches).toEqual([
+      expect.objectContaining({
+        date: "2026-02-03",
+        stored: expect.objectContaining({ total_calories: 290 }),
+        computed: expect.objectContaining({ total_calories: 250, total_protein: 10 }),
+        difference: expect.objectContaining({ total_calories: 40 })
+      }),
+      expect.objectContaining({ date: "2026-02-05", difference: expect.objectContaining({ total_calories: 100 }) })
+    ]);
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(290);
+
+    const otherRes = await server.inject({
+      method: "POST",
+      url: "/admin/reconcile",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { start: "2026-02-01", end: "2026-02-07" }
+    });
+    expect(otherRes.json().mismatches).toEqual([]);
+
+    const repairRes = await server.inject({
+      method: "POST",
+      url: "/admin/reconcile",
+      headers: { "x-auth-token": AUTH },
+      payload: { start: "2026-02-01", end: "2026-02-07", repair: true }
+    });
+    expect(repairRes.json()).toMatchObject({ repaired: true });
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(250);
+    expect((await storage.getTotal("user-1", "2026-02-05")).total_calories).toBe(0);
+
+    const recheckRes = await server.inject({
+      method: "POST",
+      url: "/admin/reconcile",
+      headers: { "x-auth-token": AUTH },
+      payload: { start: "2026-02-01", end: "2026-02-07" }
+    });
+    expect(recheckRes.json().mismatches).toEqual([]);
+  });
+
+  it("keeps totals consistent when the same entry is updated concurrently", async () => {
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "dinner", items: [{ name: "Pasta", calories: 600, protein: 20 }] }
+    });
+    const entryId = logRes.json().entry_ids[0];
+
+    const results = await Promise.all([
+      app.inject({
+        method: "POST",
+        url: "/update",
+        headers: { "x-auth-token": AUTH },
+        payload: { entry_id: entryId, updates: { calories: 700 } }
+      }),
+      app.inject({
+        method: "POST",
+        url: "/update",
+        headers: { "x-auth-token": AUTH },
+        payload: { entry_id: entryId, updates: { date: "2026-02-04" } }
+      }),
+      app.inject({
+        method: "POST",
+        url: "/update",
+        headers: { "x-auth-token": AUTH },
+        payload: { entry_id: entryId, updates: { protein: 25 } }
+      })
+    ]);
+    expect(results.map((res) => res.statusCode)).toEqual([200, 200, 200]);
+
+    const fromRes = await app.inject({ method: "GET", url: "/summary?date=2026-02-03", headers: { "x-auth-token": AUTH } });
+    const toRes = await app.inject({ method: "GET", url: "/summary?date=2026-02-04", headers: { "x-auth-token": AUTH } });
+    expect(fromRes.json()).toMatchObject({ total_calories: 0, total_protein: 0 });
+    expect(toRes.json()).toMatchObject({ total_calories: 700, total_protein: 25 });
+
+    const historyRes = await app.inject({
+      method: "GET",
+      url: `/history?entry_id=${entryId}`,
+      headers: { "x-auth-token": AUTH }
+    });
+    const revisions = historyRes.json().revisions;
+    expect(revisions).toHaveLength(4);
+    for (let i = 1; i < revisions.length; i += 1) {
+      expect(revisions[i].before).toEqual(revisions[i - 1].after);
+    }
+
+    const reconcileRes = await app.inject({
+      method: "POST",
+      url: "/admin/reconcile",
+      headers: { "x-auth-token": AUTH },
+      payload: { start: "2026-02-01", end: "2026-02-07" }
+    });
+    expect(reconcileRes.json().mismatches).toEqual([]);
+  });
+
+  it("reports every invalid field in a structured 400", async () => {
+    const queryRes = await app.inject({
+      method: "GET",
+      url: "/list?date=2026-02-03&limit=abc&offset=-1",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(queryRes.statusCode).toBe(400);
+    expect(queryRes.json().ok).toBe(false);
+    expect(queryRes.json().details).toEqual([
+      { in: "query", field: "limit", message: "must be integer" },
+      { in: "query", field: "offset", message: "must be >= 0" }
+    ]);
+
+    const bodyRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "03/02/2026", items: [{ name: "Toast", calories: -1 }] }
+    });
+    expect(bodyRes.statusCode).toBe(400);
+    expect(bodyRes.json().details).toEqual(
+      expect.arrayContaining([
+        { in: "body", field: "meal_type", message: "is required" },
+        { in: "body", field: "date", message: 'must match format "date"' },
+        { in: "body", field: "items.0.calories", message: "must be >= 0" }
+      ])
+    );
+
+    const enumRes = await app.inject({
+      method: "GET",
+      url: "/export?start=2026-02-01&end=2026-02-28&dataset=weights",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(enumRes.json().details).toEqual([{ in: "query", field: "dataset", message: "must be one of: entries, totals" }]);
+  });
+
+  it("serves an OpenAPI document generated from the route schemas", async () => {
+    const res = await app.inject({ method: "GET", url: "/openapi.json" });
+    expect(res.statusCode).toBe(200);
+    const doc = res.json();
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.paths["/log"].post.operationId).toBe("logEntry");
+    expect(doc.paths["/log"].post.requestBody.content["application/json"].schema).toEqual({
+      $ref: "#/components/schemas/LogRequest"
+    });
+    expect(doc.paths["/health"].get.security).toEqual([]);
+    expect(doc.paths["/list"].get.parameters).toContainEqual({
+      in: "query",
+      name: "limit",
+      required: false,
+      schema: { type: "integer", minimum: 1, maximum: 1000, default: 100 }
+    });
+    expect(doc.paths["/log"].post.parameters).toContainEqual(
+      expect.objectContaining({ in: "header", name: "Idempotency-Key", required: false })
+    );
+    expect(doc.paths["/log"].post.responses["409"]).toBeDefined();
+    expect(doc.paths["/list"].get.responses["409"]).toBeUndefined();
+    expect(doc.paths["/admin/reconcile"]).toBeUndefined();
+    expect(doc.paths["/openapi.json"]).toBeUndefined();
+    expect(Object.keys(doc.components.schemas)).toContain("Entry");
+    expect(JSON.stringify(doc)).not.toMatch(/"\$ref":"[^#]/);
+  });
+
+  it("applies batch updates, moves and deletes all-or-nothing", async () => {
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "lunch",
+        items: [
+          { name: "Soup", calories: 200 },
+          { name: "Bread", calories: 150 },
+          { name: "Cake", calories: 400 }
+        ]
+      }
+    });
+    const [soupId, breadId, cakeId] = logRes.json().entry_ids;
+
+    const failedRes = await app.inject({
+      method: "POST",
+      url: "/batch",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        operations: [
+          { op: "delete", entry_id: cakeId },
+          { op: "update", entry_id: "missing", updates: { calories: 1 } }
+        ]
+      }
+    });
+    expect(failedRes.statusCode).toBe(404);
+    expect(failedRes.json().results).toEqual([
+      { index: 0, op: "delete", entry_id: cakeId, ok: true },
+      { index: 1, op: "update", entry_id: "missing", ok: false, error: "entry_id not found" }
+    ]);
+
+    const deletedFirstRes = await app.inject({
+      method: "POST",
+      url: "/batch",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        operations: [
+          { op: "delete", entry_id: cakeId },
+          { op: "update", entry_id: cakeId, updates: { calories: 1 } }
+        ]
+      }
+    });
+    expect(deletedFirstRes.statusCode).toBe(404);
+    expect(deletedFirstRes.json().results).toEqual([
+      { index: 0, op: "delete", entry_id: cakeId, ok: true },
+      { index: 1, op: "update", entry_id: cakeId, ok: false, error: "entry_id not found" }
+    ]);
+
+    const invalidRes = await app.inject({
+      method: "POST",
+      url: "/batch",
+      headers: { "x-auth-token": AUTH },
+      payload: { operations: [{ op: "delete", entry_id: cakeId }, { op: "move", entry_id: soupId }] }
+    });
+    expect(invalidRes.statusCode).toBe(400);
+    expect(invalidRes.json().error).toBe("operations[1]: move needs a date or meal_type");
+
+    const unchangedRes = await app.inject({ method: "GET", url: "/summary?date=2026-02-03", headers: { "x-auth-token": AUTH } });
+    expect(unchangedRes.json().total_calories).toBe(750);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/batch",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        operations: [
+          { op: "update", entry_id: soupId, updates: { calories: 250 } },
+          { op: "move", entry_id: breadId, date: "2026-02-04", meal_type: "Breakfast" },
+          { op: "delete", entry_id: cakeId }
+        ]
+      }
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().results).toEqual([
+      { index: 0, op: "update", entry_id: soupId, entry: expect.objectContaining({ calories: 250 }) },
+      {
+        index: 1,
+        op: "move",
+        entry_id: breadId,
+        entry: expect.objectContaining({ date: "2026-02-04", meal_type: "breakfast", calories: 150 })
+      },
+      { index: 2, op: "delete", entry_id: cakeId, entry: null }
+    ]);
+    expect(res.json().totals).toEqual([
+      expect.objectContaining({ date: "2026-02-03", total_calories: 250 }),
+      expect.objectContaining({ date: "2026-02-04", total_calories: 150 })
+    ]);
+
+    const otherUserRes = await app.inject({
+      method: "POST",
+      url: "/batch",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { operations: [{ op: "delete", entry_id: soupId }] }
+    });
+    expect(otherUserRes.statusCode).toBe(404);
+  });
+
+  it("copies a meal or a whole day to another date", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "breakfast", items: [{ name: "Oats", calories: 300, protein: 10 }] }
+    });
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "dinner", items: [{ name: "Pasta", calories: 600 }] }
+    });
+
+    const mealRes = await app.inject({
+      method: "POST",
+      url: "/copy",
+      headers: { "x-auth-token": AUTH },
+      payload: { from_date: "2026-02-03", to_date: "2026-02-04", meal_type: "breakfast", to_meal_type: "snacks" }
+    });
+    expect(mealRes.statusCode).toBe(200);
+    expect(mealRes.json()).toMatchObject({ ok: true, date: "2026-02-04", total_calories: 300, total_protein: 10 });
+    expect(mealRes.json().entry_ids).toHaveLength(1);
+
+    const listRes = await app.inject({ method: "GET", url: "/list?date=2026-02-04", headers: { "x-auth-token": AUTH } });
+    expect(listRes.json().entries).toEqual([
+      expect.objectContaining({ entry_id: mealRes.json().entry_ids[0], item: "Oats", meal_type: "snacks", source: "copy" })
+    ]);
+
+    const dayRes = await app.inject({
+      method: "POST",
+      url: "/copy",
+      headers: { "x-auth-token": AUTH },
+      payload: { from_date: "2026-02-03", to_date: "2026-02-05" }
+    });
+    expect(dayRes.json()).toMatchObject({ date: "2026-02-05", total_calories: 900 });
+    expect(dayRes.json().entry_ids).toHaveLength(2);
+
+    const emptyRes = await app.inject({
+      method: "POST",
+      url: "/copy",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { from_date: "2026-02-03", to_date: "2026-02-05" }
+    });
+    expect(emptyRes.statusCode).toBe(404);
+  });
+
+  it("rolls summary ranges up into weeks and months with stats", async () => {
+    for (const [date, calories] of [
+      ["2026-02-02", 2000],
+      ["2026-02-03", 1800],
+      ["2026-02-10", 2200]
+    ] as const) {
+      await app.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: { date, meal_type: "lunch", items: [{ name: "Meal", calories }] }
+      });
+    }
+
+    const weekRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-01&end=2026-02-15&group=week",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(weekRes.statusCode).toBe(200);
+    expect(weekRes.json()).toMatchObject({ group: "week", week_start: "monday" });
+    expect(weekRes.json().totals).toEqual([
+      expect.objectContaining({ iso_week: "2026-W06", total_calories: 3800, logged_days: 2 }),
+      expect.objectContaining({ iso_week: "2026-W07", total_calories: 2200, logged_days: 1 })
+    ]);
+    expect(weekRes.json().stats).toMatchObject({ days: 15, logged_days: 3, empty_days: 12, mean: 2000, median: 2000 });
+
+    const monthRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-01-15&end=2026-02-15&group=month&include_empty=true",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(monthRes.json().totals).toEqual([
+      expect.objectContaining({ period: "2026-01", start: "2026-01-15", end: "2026-01-31", logged_days: 0, total_calories: 0 }),
+      expect.objectContaining({ period: "2026-02", days: 15, logged_days: 3, total_calories: 6000 })
+    ]);
+
+    const dailyRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-01&end=2026-02-15",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(dailyRes.json().stats.max).toEqual({ date: "2026-02-10", calories: 2200 });
+  });
+
+  it("searches entries across history", async () => {
+    for (const [date, item] of [
+      ["2026-01-05", "Pepperoni pizza"],
+      ["2026-02-03", "Pizza slice"],
+      ["2026-02-04", "Pasta"]
+    ]) {
+      await app.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: { date, meal_type: "dinner", items: [{ name: item, calories: 500 }] }
+      });
+    }
+
+    const res = await app.inject({ method: "GET", url: "/search?q=PIZZA", headers: { "x-auth-token": AUTH } });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().entries.map((entry: { date: string }) => entry.date)).toEqual(["2026-02-03", "2026-01-05"]);
+
+    const filteredRes = await app.inject({
+      method: "GET",
+      url: "/search?q=pizza&start=2026-01-01&end=2026-01-31&meal_type=Dinner",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(filteredRes.json().entries).toEqual([expect.objectContaining({ item: "Pepperoni pizza", calories: 500 })]);
+
+    const otherUserRes = await app.inject({ method: "GET", url: "/search?q=pizza", headers: { "x-auth-token": OTHER_AUTH } });
+    expect(otherUserRes.json().entries).toEqual([]);
+
+    const shortRes = await app.inject({ method: "GET", url: "/search?q=a", headers: { "x-auth-token": AUTH } });
+    expect(shortRes.statusCode).toBe(400);
+  });
+
+  it("pages entry listings with next_cursor", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "lunch",
+        items: [
+          { name: "Soup", calories: 200 },
+          { name: "Bread", calories: 150 },
+          { name: "Apple", calories: 95 }
+        ]
+      }
+    });
+
+    const firstRes = await app.inject({ method: "GET", url: "/list?date=2026-02-03&limit=2", headers: { "x-auth-token": AUTH } });
+    const first = firstRes.json();
+    expect(first.entries).toHaveLength(2);
+    expect(typeof first.next_cursor).toBe("string");
+
+    const secondRes = await app.inject({
+      method: "GET",
+      url: `/list?date=2026-02-03&limit=2&cursor=${first.next_cursor}`,
+      headers: { "x-auth-token": AUTH }
+    });
+    const second = secondRes.json();
+    expect(second.entries).toHaveLength(1);
+    expect(second.next_cursor).toBeNull();
+    expect(
+      [...first.entries, ...second.entries].map((entry: { item: string }) => entry.item).sort()
+    ).toEqual(["Apple", "Bread", "Soup"]);
+
+    const rangeRes = await app.inject({
+      method: "GET",
+      url: `/entries-range?start=2026-02-01&end=2026-02-05&limit=2&cursor=${first.next_cursor}`,
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(rangeRes.json().entries).toEqual(second.entries);
+
+    const bothRes = await app.inject({
+      method: "GET",
+      url: `/list?date=2026-02-03&offset=1&cursor=${first.next_cursor}`,
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(bothRes.statusCode).toBe(400);
+
+    const badRes = await app.inject({ method: "GET", url: "/list?date=2026-02-03&cursor=garbage", headers: { "x-auth-token": AUTH } });
+    expect(badRes.statusCode).toBe(400);
+    expect(badRes.json().error).toMatch("Invalid cursor");
+  });
+
+  it("reports logging streaks and adherence", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/goals",
+      headers: { "x-auth-token": AUTH },
+      payload: { effective_from: "2026-01-01", calories: 2000 }
+    });
+    for (const [date, mealType, calories] of [
+      ["2026-02-01", "breakfast", 900],
+      ["2026-02-01", "dinner", 1100],
+      ["2026-02-02", "dinner", 2500],
+      ["2026-02-03", "breakfast", 1000],
+      ["2026-02-03", "dinner", 1000]
+    ] as const) {
+      await app.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: { date, meal_type: mealType, items: [{ name: "Meal", calories }] }
+      });
+    }
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/report/adherence?start=2026-02-01&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({
+      rule: { require_meals: [], min_calories: 1 },
+      tolerance: 10,
+      logged_days: 3,
+      streaks: { current: 3, longest: 3 },
+      goal: { days_with_goal: 3, within: 2, over: 1 }
+    });
+
+    await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: { logging_rule: { require_meals: ["Breakfast", "dinner"] } }
+    });
+    const ruleRes = await app.inject({
+      method: "GET",
+      url: "/report/adherence?start=2026-02-01&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(ruleRes.json()).toMatchObject({
+      rule: { require_meals: ["breakfast", "dinner"], min_calories: 1 },
+      logged_days: 2,
+      streaks: { current: 1, longest: 1 }
+    });
+    expect(ruleRes.json().skipped_meals[0]).toEqual({ meal_type: "lunch", days: 3, rate: 1 });
+
+    const overrideRes = await app.inject({
+      method: "GET",
+      url: "/report/adherence?start=2026-02-01&end=2026-02-03&require_meals=dinner&min_calories=1500",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(overrideRes.json()).toMatchObject({ rule: { require_meals: ["dinner"], min_calories: 1500 }, logged_days: 3 });
+
+    const badRes = await app.inject({
+      method: "GET",
+      url: "/report/adherence?start=2026-02-01&end=2026-02-03&require_meals=brunch",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(badRes.statusCode).toBe(400);
+  });
+
+  it("uses the user's configured meal types and aliases", async () => {
+    const settingsRes = await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        meal_types: [
+          { name: "breakfast" },
+          { name: "pre-workout", aliases: ["preworkout"] },
+          { name: "dinner", aliases: ["supper"] }
+        ],
+        logging_rule: { require_meals: ["supper"] }
+      }
+    });
+    expect(settingsRes.statusCode).toBe(200);
+    expect(settingsRes.json().settings.logging_rule).toEqual({ require_meals: ["dinner"], min_calories: 1 });
+
+    for (const [mealType, calories] of [
+      ["Supper", 700],
+      ["PreWorkout", 200],
+      ["breakfast", 400]
+    ] as const) {
+      const logRes = await app.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: { date: "2026-02-03", meal_type: mealType, items: [{ name: "Food", calories }] }
+      });
+      expect(logRes.statusCode).toBe(200);
+    }
+
+    const badRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "lunch", items: [{ name: "Food", calories: 1 }] }
+    });
+    expect(badRes.json().error).toBe("Invalid meal_type. Use breakfast, pre-workout, or dinner.");
+
+    const otherUserRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { date: "2026-02-03", meal_type: "lunch", items: [{ name: "Food", calories: 1 }] }
+    });
+    expect(otherUserRes.statusCode).toBe(200);
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-03&end=2026-02-03&group=meal_type",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json().meal_types).toEqual(["breakfast", "pre-workout", "dinner"]);
+    expect(summaryRes.json().totals[0].totals).toEqual({ breakfast: 400, "pre-workout": 200, dinner: 700 });
+
+    const getRes = await app.inject({ method: "GET", url: "/settings", headers: { "x-auth-token": AUTH } });
+    expect(getRes.json().meal_types.map((mealType: { name: string }) => mealType.name)).toEqual([
+      "breakfast",
+      "pre-workout",
+      "dinner"
+    ]);
+
+    const removeRes = await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: { meal_types: [{ name: "breakfast" }, { name: "lunch" }] }
+    });
+    expect(removeRes.statusCode).toBe(400);
+    expect(removeRes.json().error).toBe("logging_rule: Invalid meal_type. Use breakfast or lunch.");
+  });
+
+  it("logs activities and reports intake, burned and net calories", async () => {
+    await app.inject({
+      method: "POST",
+      url: "/goals",
+      headers: { "x-auth-token": AUTH },
+      payload: { effective_from: "2026-01-01", calories: 2000 }
+    });
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", meal_type: "dinner", items: [{ name: "Pasta", calories: 2100 }] }
+    });
+
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/activities",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-03", name: "Running", duration_minutes: 30, calories_burned: 300 }
+    });
+    expect(logRes.statusCode).toBe(200);
+    const activity = logRes.json().activity;
+    expect(activity).toMatchObject({ date: "2026-02-03", name: "Running", calories_burned: 300, source: "manual" });
+
+    const updateRes = await app.inject({
+      method: "POST",
+      url: "/activities/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { activity_id: activity.activity_id, updates: { calories_burned: 400 } }
+    });
+    expect(updateRes.json().activity).toMatchObject({ name: "Running", duration_minutes: 30, calories_burned: 400 });
+
+    const summaryRes = await app.inject({ method: "GET", url: "/summary?date=2026-02-03", headers: { "x-auth-token": AUTH } });
+    expect(summaryRes.json()).toMatchObject({ total_calories: 2100, intake: 2100, burned: 400, net: 1700, remaining: { calories: -100 } });
+
+    const rangeRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-03&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(rangeRes.json().totals[0]).toMatchObject({ intake: 2100, burned: 400, net: 1700, status: "over" });
+
+    await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: { count_burned_calories: true }
+    });
+    const countedRes = await app.inject({ method: "GET", url: "/summary?date=2026-02-03", headers: { "x-auth-token": AUTH } });
+    expect(countedRes.json().remaining).toEqual({ calories: 300 });
+    const countedRangeRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-03&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(countedRangeRes.json().totals[0].status).toBe("under");
+
+    const listRes = await app.inject({
+      method: "GET",
+      url: "/activities?start=2026-02-01&end=2026-02-28",
+      headers: { "x-auth-token": OTHER_AUTH }
+    });
+    expect(listRes.json().activities).toEqual([]);
+
+    const deleteRes = await app.inject({
+      method: "POST",
+      url: "/activities/delete",
+      headers: { "x-auth-token": AUTH },
+      payload: { activity_id: activity.activity_id }
+    });
+    expect(deleteRes.json()).toEqual({ ok: true, activity_id: activity.activity_id });
+    const missingRes = await app.inject({
+      method: "POST",
+      url: "/activities/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { activity_id: activity.activity_id, updates: { name: "Swim" } }
+    });
+    expect(missingRes.statusCode).toBe(404);
+  });
+
+  it("delivers signed webhooks for logged entries and reports deliveries", async () => {
+    const received: Array<{ signature: string; timestamp: string; body: string }> = [];
+    const receiver = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({
+          signature: String(request.headers["x-webhook-signature"]),
+          timestamp: String(request.headers["x-webhook-timestamp"]),
+          body
+        });
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+    const server = buildServer({
+      authTokens: { [AUTH]: "user-1", [OTHER_AUTH]: "user-2" },
+      storage: createMemoryStorage(),
+      webhookDelivery: { retries: 1, backoffMs: 1 },
+      allowPrivateWebhookUrls: true
+    });
+
+    try {
+      const invalidRes = await server.inject({
+        method: "POST",
+        url: "/webhooks",
+        headers: { "x-auth-token": AUTH },
+        payload: { url: "ftp://example.com/hook" }
+      });
+      expect(invalidRes.statusCode).toBe(400);
+
+      const createRes = await server.inject({
+        method: "POST",
+        url: "/webhooks",
+        headers: { "x-auth-token": AUTH },
+        payload: { url, events: ["entry.created", "daily_total.changed"] }
+      });
+      const { webhook } = createRes.json();
+      expect(webhook).toMatchObject({ url, events: ["entry.created", "daily_total.changed"] });
+      expect(webhook.secret).toMatch(/^[0-9a-f]{48}$/);
+
+      const listRes = await server.inject({ method: "GET", url: "/webhooks", headers: { "x-auth-token": AUTH } });
+      expect(listRes.json().webhooks).toEqual([
+        { webhook_id: webhook.webhook_id, url, events: webhook.events, created_at: webhook.created_at }
+      ]);
+
+      await server.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": OTHER_AUTH },
+        payload: { date: "2026-02-03", meal_type: "lunch", items: [{ name: "Soup", calories: 250 }] }
+      });
+      const logRes = await server.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: { date: "2026-02-03", meal_type: "lunch", items: [{ name: "Soup", calories: 250 }] }
+      });
+      const [entryId] = logRes.json().entry_ids;
+      await server.inject({
+        method: "POST",
+        url: "/delete",
+        headers: { "x-auth-token": AUTH },
+        payload: { entry_id: entryId }
+      });
+
+      const testRes = await server.inject({
+        method: "POST",
+        url: "/webhooks/test",
+        headers: { "x-auth-token": AUTH },
+        payload: { webhook_id: webhook.webhook_id }
+      });
+      expect(testRes.json()).toMatchObject({ ok: true, delivery: { event_type: "webhook.test", attempts: 1 } });
+      const otherTestRes = await server.inject({
+        method: "POST",
+        url: "/webhooks/test",
+        headers: { "x-auth-token": OTHER_AUTH },
+        payload: { webhook_id: webhook.webhook_id }
+      });
+      expect(otherTestRes.statusCode).toBe(404);
+
+      // Deliveries run after the responses; wait for the delivery log rather than for a fixed delay.
+      const deliveries = await vi.waitFor(async () => {
+        const deliveriesRes = await server.inject({
+          method: "GET",
+          url: `/webhooks/deliveries?webhook_id=${webhook.webhook_id}`,
+          headers: { "x-auth-token": AUTH }
+        });
+        expect(deliveriesRes.json().deliveries).toHaveLength(4);
+        return deliveriesRes.json().deliveries;
+      });
+      expect(deliveries.every((delivery: { status: string }) => delivery.status === "succeeded")).toBe(true);
+      const events = received.map((request) => JSON.parse(request.body));
+      expect(events.map((event) => event.type).sort()).toEqual([
+        "daily_total.changed",
+        "daily_total.changed",
+        "entry.created",
+        "webhook.test"
+      ]);
+      expect(events.find((event) => event.type === "entry.created").data.entry).toMatchObject({
+        entry_id: entryId,
+        item: "Soup",
+        calories: 250
+      });
+      expect(events.filter((event) => event.type === "daily_total.changed").map((event) => event.data.total_calories).sort()).toEqual([0, 250]);
+      for (const request of received) {
+        expect(request.signature).toBe(signWebhook(webhook.secret, request.timestamp, request.body));
+      }
+
+      const deleteRes = await server.inject({
+        method: "POST",
+        url: "/webhooks/delete",
+        headers: { "x-auth-token": AUTH },
+        payload: { webhook_id: webhook.webhook_id }
+      });
+      expect(deleteRes.json()).toEqual({ ok: true, webhook_id: webhook.webhook_id });
+    } finally {
+      await server.close();
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+
+  it("rejects webhooks on localhost and private networks unless they are allowed", async () => {
+    for (const url of [
+      "http://localhost:3000/hook",
+      "http://127.0.0.1/hook",
+      "http://2130706433/hook",
+      "http://10.1.2.3/hook",
+      "http://192.168.0.10/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/hook",
+      "http://[fe80::1]/hook",
+      "http://[::ffff:127.0.0.1]/hook"
+    ]) {
+      const res = await app.inject({ method: "POST", url: "/webhooks", headers: { "x-auth-token": AUTH }, payload: { url } });
+      expect(res.statusCode, url).toBe(400);
+    }
+    const publicRes = await app.inject({
+      method: "POST",
+      url: "/webhooks",
+      headers: { "x-auth-token": AUTH },
+      payload: { url: "https://93.184.216.34/hook" }
+    });
+    expect(publicRes.statusCode).toBe(200);
+  });
+
+  it("delivers webhooks for every change a batch makes", async () => {
+    const received: string[] = [];
+    const receiver = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push(body);
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    const server = buildServer({
+      authTokens: { [AUTH]: "user-1" },
+      storage: createMemoryStorage(),
+      webhookDelivery: { retries: 0, backoffMs: 1 },
+      allowPrivateWebhookUrls: true
+    });
+
+    try {
+      const logRes = await server.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH },
+        payload: {
+          date: "2026-02-03",
+          meal_type: "lunch",
+          items: [
+            { name: "Soup", calories: 250 },
+            { name: "Bread", calories: 90 }
+          ]
+        }
+      });
+      const [soupId, breadId] = logRes.json().entry_ids;
+      const createRes = await server.inject({
+        method: "POST",
+        url: "/webhooks",
+        headers: { "x-auth-token": AUTH },
+        payload: { url: `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook` }
+      });
+      const { webhook } = createRes.json();
+
+      const batchRes = await server.inject({
+        method: "POST",
+        url: "/batch",
+        headers: { "x-auth-token": AUTH },
+        payload: {
+          operations: [
+            { op: "update", entry_id: soupId, updates: { date: "2026-02-04", calories: 300 } },
+            { op: "delete", entry_id: breadId }
+          ]
+        }
+      });
+      expect(batchRes.statusCode).toBe(200);
+
+      await vi.waitFor(async () => {
+        const deliveriesRes = await server.inject({
+          method: "GET",
+          url: `/webhooks/deliveries?webhook_id=${webhook.webhook_id}`,
+          headers: { "x-auth-token": AUTH }
+        });
+        expect(deliveriesRes.json().deliveries).toHaveLength(4);
+      });
+      const events = received.map((body) => JSON.parse(body));
+      expect(events.map((event) => event.type)).toEqual([
+        "entry.updated",
+        "entry.deleted",
+        "daily_total.changed",
+        "daily_total.changed"
+      ]);
+      expect(events[0].data).toMatchObject({ before: { calories: 250 }, after: { date: "2026-02-04", calories: 300 } });
+      expect(events[1].data.entry).toMatchObject({ entry_id: breadId });
+      expect(events.slice(2).map((event) => [event.data.date, event.data.total_calories])).toEqual([
+        ["2026-02-03", 0],
+        ["2026-02-04", 300]
+      ]);
+    } finally {
+      await server.close();
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+
+  it("replays responses to repeated requests with the same Idempotency-Key", async () => {
+    const payload = { date: "2026-02-03", meal_type: "lunch", items: [{ name: "Soup", calories: 250 }] };
+    const first = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH, "idempotency-key": "log-1" },
+      payload
+    });
+    const repeat = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH, "idempotency-key": "log-1" },
+      payload
+    });
+    expect(first.statusCode).toBe(200);
+    expect(first.headers["idempotent-replayed"]).toBeUndefined();
+    expect(repeat.statusCode).toBe(200);
+    expect(repeat.headers["idempotent-replayed"]).toBe("true");
+    expect(repeat.json()).toEqual(first.json());
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json().total_calories).toBe(250);
+
+    const conflictRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH, "idempotency-key": "log-1" },
+      payload: { ...payload, items: [{ name: "Bread", calories: 100 }] }
+    });
+    expect(conflictRes.statusCode).toBe(409);
+    expect(conflictRes.json().error).toMatch(/different request/);
+
+    const otherUserRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": OTHER_AUTH, "idempotency-key": "log-1" },
+      payload
+    });
+    expect(otherUserRes.headers["idempotent-replayed"]).toBeUndefined();
+
+    const [entryId] = first.json().entry_ids;
+    const deletes = [];
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      deletes.push(
+        await app.inject({
+          method: "POST",
+          url: "/delete",
+          headers: { "x-auth-token": AUTH, "idempotency-key": "delete-1" },
+          payload: { entry_id: entryId }
+        })
+      );
+    }
+    expect(deletes.map((res) => res.statusCode)).toEqual([200, 200]);
+    expect(deletes[1].json()).toEqual(deletes[0].json());
+
+    const invalidRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH, "idempotency-key": "x".repeat(256) },
+      payload
+    });
+    expect(invalidRes.statusCode).toBe(400);
+    expect(invalidRes.json().error).toMatch(/Idempotency-Key must be 1 to 255 characters/);
+  });
+
+  it("rejects repeats while the first request is in progress and forgets keys after the retention window", async () => {
+    const storage = createMemoryStorage();
+    const server = buildServer({
+      authTokens: { [AUTH]: "user-1", [OTHER_AUTH]: "user-2" },
+      storage,
+      idempotencyRetentionHours: 0
+    });
+    const payload = { date: "2026-02-03", meal_type: "lunch", items: [{ name: "Soup", calories: 250 }] };
+
+    const now = Date.now();
+    await storage.claimIdempotencyKey("user-1", {
+      key: "busy",
+      request_hash: requestHash("POST", "/log", payload),
+      response: null,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + 60_000).toISOString()
+    });
+    const busyRes = await server.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH, "idempotency-key": "busy" },
+      payload
+    });
+    expect(busyRes.statusCode).toBe(409);
+    expect(busyRes.json().error).toMatch(/still in progress/);
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      await server.inject({
+        method: "POST",
+        url: "/log",
+        headers: { "x-auth-token": AUTH, "idempotency-key": "expired" },
+        payload
+      });
+    }
+    const summaryRes = await server.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json().total_calories).toBe(500);
+  });
+
+  it("queues low-confidence entries for review until they are confirmed or corrected", async () => {
+    const logRes = await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: {
+        date: "2026-02-03",
+        meal_type: "dinner",
+        raw_text: "a big plate of curry and some rice",
+        items: [
+          { name: "Curry", calories: 600, confidence: 0.4 },
+          { name: "Rice", calories: 200, confidence: 0.6 },
+          { name: "Beer", calories: 150, confidence: 0.95 }
+        ]
+      }
+    });
+    const [curryId, riceId] = logRes.json().entry_ids;
+
+    const queueRes = await app.inject({
+      method: "GET",
+      url: "/review?start=2026-02-01&end=2026-02-28",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(queueRes.json()).toMatchObject({ threshold: 0.7, count: 2, unconfirmed_calories: 800 });
+    expect(queueRes.json().entries.map((entry: { item: string }) => entry.item).sort()).toEqual(["Curry", "Rice"]);
+    expect(queueRes.json().entries[0].raw_text).toBe("a big plate of curry and some rice");
+
+    const strictRes = await app.inject({
+      method: "GET",
+      url: "/review?start=2026-02-01&end=2026-02-28&threshold=0.5",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(strictRes.json()).toMatchObject({ threshold: 0.5, count: 1, unconfirmed_calories: 600 });
+
+    const confirmRes = await app.inject({
+      method: "POST",
+      url: "/review/confirm",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: curryId, calories: 750 }
+    });
+    expect(confirmRes.statusCode).toBe(200);
+    expect(confirmRes.json()).toMatchObject({ ok: true, entry_id: curryId, total_calories: 1100 });
+    expect(confirmRes.json().entry).toMatchObject({ calories: 750, confidence: 0.4 });
+    expect(confirmRes.json().entry.reviewed_at).toBeTruthy();
+
+    const summaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03&include_unconfirmed=true",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(summaryRes.json()).toMatchObject({ total_calories: 1100, unconfirmed_calories: 200 });
+    const plainSummaryRes = await app.inject({
+      method: "GET",
+      url: "/summary?date=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(plainSummaryRes.json().unconfirmed_calories).toBeUndefined();
+
+    await app.inject({
+      method: "POST",
+      url: "/review/confirm",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: riceId }
+    });
+    const rangeRes = await app.inject({
+      method: "GET",
+      url: "/summary-range?start=2026-02-03&end=2026-02-04&include_empty=true&include_unconfirmed=true",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(rangeRes.json().totals.map((row: { unconfirmed_calories: number }) => row.unconfirmed_calories)).toEqual([0, 0]);
+
+    await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: { review_threshold: 0.99 }
+    });
+    const settingsRes = await app.inject({ method: "GET", url: "/settings", headers: { "x-auth-token": AUTH } });
+    expect(settingsRes.json().review_threshold).toBe(0.99);
+    const raisedRes = await app.inject({
+      method: "GET",
+      url: "/review?start=2026-02-01&end=2026-02-28",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(raisedRes.json().entries.map((entry: { item: string }) => entry.item)).toEqual(["Beer"]);
+
+    const historyRes = await app.inject({
+      method: "GET",
+      url: `/history?entry_id=${curryId}`,
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(historyRes.json().revisions.at(-1)).toMatchObject({ action: "update", source: "review" });
+
+    await app.inject({
+      method: "POST",
+      url: "/settings",
+      headers: { "x-auth-token": AUTH },
+      payload: { review_threshold: 0.7 }
+    });
+    await app.inject({
+      method: "POST",
+      url: "/log",
+      headers: { "x-auth-token": AUTH },
+      payload: { date: "2026-02-04", meal_type: "lunch", items: [{ name: "Sandwich", calories: 400 }] }
+    });
+    await app.inject({
+      method: "POST",
+      url: "/copy",
+      headers: { "x-auth-token": AUTH },
+      payload: { from_date: "2026-02-03", to_date: "2026-02-05" }
+    });
+    const copiedRes = await app.inject({
+      method: "GET",
+      url: "/review?start=2026-02-04&end=2026-02-05",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(copiedRes.json()).toMatchObject({ count: 0, unconfirmed_calories: 0 });
+
+    const renameRes = await app.inject({
+      method: "POST",
+      url: "/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: curryId, updates: { item: "Chicken curry" } }
+    });
+    expect(renameRes.statusCode).toBe(200);
+    const renamedRes = await app.inject({
+      method: "GET",
+      url: "/review?start=2026-02-03&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(renamedRes.json().count).toBe(0);
+    const editRes = await app.inject({
+      method: "POST",
+      url: "/update",
+      headers: { "x-auth-token": AUTH },
+      payload: { entry_id: curryId, updates: { calories: 900 } }
+    });
+    expect(editRes.statusCode).toBe(200);
+    const editedRes = await app.inject({
+      method: "GET",
+      url: "/review?start=2026-02-03&end=2026-02-03",
+      headers: { "x-auth-token": AUTH }
+    });
+    expect(editedRes.json()).toMatchObject({ count: 1, unconfirmed_calories: 900 });
+    expect(editedRes.json().entries[0]).toMatchObject({ entry_id: curryId, item: "Chicken curry", reviewed_at: null });
+
+    const otherRes = await app.inject({
+      method: "POST",
+      url: "/review/confirm",
+      headers: { "x-auth-token": OTHER_AUTH },
+      payload: { entry_id: curryId }
+    });
+    expect(otherRes.statusCode).toBe(404);
+  });
 });
@@ -0,0 +1,635 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { createSqliteStorage, migrate } from "../src/sqlite.js";
+import {
+  chunkEntriesByDate,
+  compareRevisions,
+  createMemoryStorage,
+  MAX_CREATE_ENTRIES,
+  planUndo,
+  type Entry,
+  type EntryInput,
+  type Revision,
+  type StorageAdapter
+} from "../src/storage.js";
+
+const META = { timestamp: "2026-02-03T12:00:00.000Z", source: "test" };
+
+function entryInput(overrides: Partial<EntryInput> = {}): EntryInput {
+  return {
+    timestamp: "2026-02-03T08:00:00.000Z",
+    date: "2026-02-03",
+    meal_type: "breakfast",
+    item: "Oats",
+    quantity: "1 bowl",
+    calories: 300,
+    protein: 10,
+    carbs: 50,
+    fat: 6,
+    fiber: 8,
+    confidence: 0.9,
+    source: "test",
+    raw_text: "",
+    ...overrides
+  };
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
+describe.each([
+  ["memory", () => createMemoryStorage()],
+  ["sqlite", () => createSqliteStorage(":memory:")]
+] as const)("%s storage", (_name, create) => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    storage = create();
+  });
+
+  it("creates entries together with their totals and revisions", async () => {
+    const created = await storage.createEntries(
+      "user-1",
+      [entryInput(), entryInput({ item: "Coffee", calories: 5, protein: 0, carbs: 1, fat: 0, fiber: 0 })],
+      META
+    );
+
+    expect(created).toHaveLength(2);
+    expect(new Set(created.map((entry) => entry.entry_id)).size).toBe(2);
+    expect(await storage.getEntry("user-1", created[0].entry_id)).toEqual(created[0]);
+    expect(await storage.getTotal("user-1", "2026-02-03")).toEqual({
+      total_calories: 305,
+      total_protein: 10,
+      total_carbs: 51,
+      total_fat: 6,
+      total_fiber: 8
+    });
+    expect(await storage.listRevisions("user-1", created[0].entry_id)).toEqual([
+      expect.objectContaining({ action: "create", before: null, after: created[0], ...META })
+    ]);
+  });
+
+  it("moves totals between dates when an entry is updated", async () => {
+    const [entry] = await storage.createEntries("user-1", [entryInput()], META);
+
+    const change = await storage.updateEntry("user-1", entry.entry_id, () => ({ date: "2026-02-04", calories: 350 }), META);
+
+    expect(change).toEqual({ before: entry, after: { ...entry, date: "2026-02-04", calories: 350 } });
+    expect(await storage.getEntry("user-1", entry.entry_id)).toEqual(change?.after);
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(0);
+    expect((await storage.getTotal("user-1", "2026-02-04")).total_calories).toBe(350);
+    expect((await storage.listRevisions("user-1", entry.entry_id)).map((revision) => revision.action)).toEqual([
+      "create",
+      "update"
+    ]);
+  });
+
+  it("writes nothing when an update's change function throws", async () => {
+    const [entry] = await storage.createEntries("user-1", [entryInput()], META);
+
+    await expect(
+      storage.updateEntry(
+        "user-1",
+        entry.entry_id,
+        () => {
+          throw new Error("invalid update");
+        },
+        META
+      )
+    ).rejects.toThrow("invalid update");
+
+    expect(await storage.getEntry("user-1", entry.entry_id)).toEqual(entry);
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(300);
+    expect(await storage.listRevisions("user-1", entry.entry_id)).toHaveLength(1);
+  });
+
+  it("applies a batch of changes together or not at all", async () => {
+    const [oats, coffee, toast] = await storage.createEntries(
+      "user-1",
+      [entryInput(), entryInput({ item: "Coffee", calories: 5 }), entryInput({ item: "Toast", calories: 200 })],
+      META
+    );
+
+    const missing = await storage.applyEntryChanges(
+      "user-1",
+      [
+        { entry_id: oats.entry_id, change: null },
+        { entry_id: "missing", change: () => ({ calories: 1 }) }
+      ],
+      META
+    );
+    expect(missing).toEqual({ status: "not_found", entry_ids: ["missing"], indexes: [1] });
+    expect(await storage.getEntry("user-1", oats.entry_id)).toEqual(oats);
+
+    const result = await storage.applyEntryChanges(
+      "user-1",
+      [
+        { entry_id: oats.entry_id, change: () => ({ date: "2026-02-04" }) },
+        { entry_id: oats.entry_id, change: (current) => ({ calories: current.calories + 50 }) },
+        { entry_id: coffee.entry_id, change: null }
+      ],
+      META
+    );
+
+    expect(result).toEqual({
+      status: "applied",
+      changes: [
+        { entry_id: oats.entry_id, before: oats, after: { ...oats, date: "2026-02-04" } },
+        { entry_id: oats.entry_id, before: { ...oats, date: "2026-02-04" }, after: { ...oats, date: "2026-02-04", calories: 350 } },
+        { entry_id: coffee.entry_id, before: coffee, after: null }
+      ]
+    });
+    expect(await storage.getEntry("user-1", coffee.entry_id)).toBeNull();
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(toast.calories);
+    expect((await storage.getTotal("user-1", "2026-02-04")).total_calories).toBe(350);
+    expect((await storage.listRevisions("user-1", oats.entry_id)).map((revision) => revision.action)).toEqual([
+      "create",
+      "update",
+      "update"
+    ]);
+  });
+
+  it("searches entries newest first with filters and paging", async () => {
+    const [older, lunch, dinner] = await storage.createEntries(
+      "user-1",
+      [
+        entryInput({ date: "2026-01-10", item: "Margherita pizza", meal_type: "dinner" }),
+        entryInput({ date: "2026-02-03", item: "Salad", raw_text: "leftover pizza slice", meal_type: "lunch" }),
+        entryInput({ date: "2026-02-03", timestamp: "2026-02-03T19:00:00.000Z", item: "Pizza", meal_type: "dinner" })
+      ],
+      META
+    );
+    await storage.createEntries("user-2", [entryInput({ item: "Pizza" })], META);
+    await storage.updateEntry("user-1", older.entry_id, () => ({ item: "Margherita PIZZA" }), META);
+    const search = { terms: ["pizz"], limit: 10, offset: 0 };
+
+    expect((await storage.searchEntries("user-1", search)).map((entry) => entry.entry_id)).toEqual([
+      dinner.entry_id,
+      lunch.entry_id,
+      older.entry_id
+    ]);
+    expect(await storage.searchEntries("user-1", { ...search, terms: ["pizza", "slice"] })).toEqual([lunch]);
+    expect(await storage.searchEntries("user-1", { ...search, meal_type: "dinner", start: "2026-02-01" })).toEqual([dinner]);
+    expect(await storage.searchEntries("user-1", { ...search, limit: 1, offset: 1 })).toEqual([lunch]);
+    expect(await storage.backfillSearchTokens()).toBe(0);
+  });
+
+  it("deletes entries and undoes changes in reverse order", async () => {
+    const [entry] = await storage.createEntries("user-1", [entryInput()], META);
+    await storage.updateEntry("user-1", entry.entry_id, () => ({ calories: 400 }), META);
+    const deleted = await storage.deleteEntry("user-1", entry.entry_id, META);
+
+    expect(deleted).toMatchObject({ entry_id: entry.entry_id, calories: 400 });
+    expect(await storage.getEntry("user-1", entry.entry_id)).toBeNull();
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(0);
+
+    const undoDelete = await storage.undoEntry("user-1", entry.entry_id, "2026-02-03T13:00:00.000Z");
+    expect(undoDelete).toMatchObject({ status: "undone", before: null, after: { calories: 400 } });
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(400);
+
+    const undoUpdate = await storage.undoEntry("user-1", entry.entry_id, "2026-02-03T13:01:00.000Z");
+    expect(undoUpdate).toMatchObject({ status: "undone", revision: { action: "update" }, after: entry });
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(300);
+
+    await storage.undoEntry("user-1", entry.entry_id, "2026-02-03T13:02:00.000Z");
+    expect(await storage.getEntry("user-1", entry.entry_id)).toBeNull();
+    expect(await storage.undoEntry("user-1", entry.entry_id, "2026-02-03T13:03:00.000Z")).toEqual({
+      status: "nothing_to_undo"
+    });
+
+    const revisions = await storage.listRevisions("user-1", entry.entry_id);
+    expect(revisions.map((revision) => Boolean(revision.undone_at))).toEqual([true, true, true]);
+  });
+
+  it("rejects creating more entries than one write holds and writes none of them", async () => {
+    const entries = Array.from({ length: MAX_CREATE_ENTRIES + 1 }, () => entryInput());
+
+    await expect(storage.createEntries("user-1", entries, META)).rejects.toThrow(`at most ${MAX_CREATE_ENTRIES}`);
+    expect((await storage.listEntries("user-1", "2026-02-03", { limit: 10, offset: 0 })).entries).toEqual([]);
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(0);
+
+    expect(await storage.createEntries("user-1", entries.slice(1), META)).toHaveLength(MAX_CREATE_ENTRIES);
+  });
+
+  it("keeps the order of revisions one request writes at the same timestamp", async () => {
+    const [entry] = await storage.createEntries("user-1", [entryInput()], { ...META, timestamp: "2026-02-03T11:00:00.000Z" });
+    await storage.applyEntryChanges(
+      "user-1",
+      [
+        { entry_id: entry.entry_id, change: () => ({ calories: 400 }) },
+        { entry_id: entry.entry_id, change: () => ({ calories: 500 }) }
+      ],
+      META
+    );
+
+    const revisions = await storage.listRevisions("user-1", entry.entry_id);
+    expect(revisions.map((revision) => revision.after?.calories)).toEqual([300, 400, 500]);
+    expect(revisions.slice(1).map((revision) => revision.sequence)).toEqual([0, 1]);
+
+    expect(await storage.undoEntry("user-1", entry.entry_id, "2026-02-03T13:00:00.000Z")).toMatchObject({
+      status: "undone",
+      after: { calories: 400 }
+    });
+    expect(await storage.undoEntry("user-1", entry.entry_id, "2026-02-03T13:01:00.000Z")).toMatchObject({
+      status: "undone",
+      after: { calories: 300 }
+    });
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(300);
+  });
+
+  it("lists, pages and streams entries in date and timestamp order", async () => {
+    await storage.createEntries(
+      "user-1",
+      [
+        entryInput({ item: "Early", timestamp: "2026-02-03T08:00:00.000Z" }),
+        entryInput({ item: "Late", timestamp: "2026-02-03T19:00:00.000Z" }),
+        entryInput({ item: "Next day", date: "2026-02-04" }),
+        entryInput({ item: "Out of range", date: "2026-02-10" })
+      ],
+      META
+    );
+
+    expect((await storage.listEntries("user-1", "2026-02-03", { limit: 10, offset: 0 })).entries.map((entry) => entry.item)).toEqual([
+      "Late",
+      "Early"
+    ]);
+    expect((await storage.listEntries("user-1", "2026-02-03", { limit: 1, offset: 1 })).entries.map((entry) => entry.item)).toEqual([
+      "Early"
+    ]);
+
+    const range = await storage.listEntriesRange("user-1", "2026-02-01", "2026-02-05", { limit: 10, offset: 0 });
+    expect(range.entries.map((entry) => entry.item)).toEqual(["Late", "Early", "Next day"]);
+    expect(range.next_cursor).toBeNull();
+    const offsetPage = await storage.listEntriesRange("user-1", "2026-02-01", "2026-02-05", { limit: 2, offset: 1 });
+    expect(offsetPage.entries.map((entry) => entry.item)).toEqual(["Early", "Next day"]);
+    expect(await collect(storage.streamEntriesRange("user-1", "2026-02-01", "2026-02-05"))).toEqual(range.entries);
+  });
+
+  it("pages entries by cursor without skipping or repeating when entries are added", async () => {
+    const timestamp = "2026-02-03T12:00:00.000Z";
+    await storage.createEntries(
+      "user-1",
+      [
+        entryInput({ item: "A", timestamp }),
+        entryInput({ item: "B", timestamp }),
+        entryInput({ item: "C", timestamp }),
+        entryInput({ item: "D", date: "2026-02-04" })
+      ],
+      META
+    );
+
+    const first = await storage.listEntriesRange("user-1", "2026-02-01", "2026-02-05", { limit: 2 });
+    expect(first.entries).toHaveLength(2);
+    expect(first.next_cursor).toEqual({
+      date: first.entries[1].date,
+      timestamp: first.entries[1].timestamp,
+      entry_id: first.entries[1].entry_id
+    });
+
+    // A newer entry on an earlier page must not shift the rest of the listing.
+    await storage.createEntries("user-1", [entryInput({ item: "Late", timestamp: "2026-02-03T20:00:00.000Z" })], META);
+
+    const second = await storage.listEntriesRange("user-1", "2026-02-01", "2026-02-05", {
+      limit: 2,
+      cursor: first.next_cursor!
+    });
+    expect(second.next_cursor).toBeNull();
+
+    const paged = [...first.entries, ...second.entries];
+    expect(paged.map((entry) => entry.item).sort()).toEqual(["A", "B", "C", "D"]);
+    expect(paged.at(-1)?.item).toBe("D");
+  });
+
+  it("sets and reads daily totals by range", async () => {
+    await storage.setTotal("user-1", "2026-02-05", { calories: 2000, protein: 100, carbs: 200, fat: 70, fiber: 30 });
+    await storage.createEntries("user-1", [entryInput()], META);
+
+    expect(await storage.getTotalsRange("user-1", "2026-02-01", "2026-02-28")).toEqual([
+      { date: "2026-02-03", total_calories: 300, total_protein: 10, total_carbs: 50, total_fat: 6, total_fiber: 8 },
+      { date: "2026-02-05", total_calories: 2000, total_protein: 100, total_carbs: 200, total_fat: 70, total_fiber: 30 }
+    ]);
+    expect(await storage.getTotal("user-1", "2026-02-06")).toEqual({
+      total_calories: 0,
+      total_protein: 0,
+      total_carbs: 0,
+      total_fat: 0,
+      total_fiber: 0
+    });
+  });
+
+  it("stores goals keyed by effective date", async () => {
+    await storage.setGoal("user-1", { effective_from: "2026-02-10", calories: 2000, updated_at: "a" });
+    await storage.setGoal("user-1", { effective_from: "2026-01-01", calories: 2200, updated_at: "b" });
+    await storage.setGoal("user-1", {
+      effective_from: "2026-02-10",
+      calories: 1900,
+      weekdays: { saturday: { calories: 2400 } },
+      updated_at: "c"
+    });
+
+    expect((await storage.listGoals("user-1")).map((goal) => [goal.effective_from, goal.calories])).toEqual([
+      ["2026-01-01", 2200],
+      ["2026-02-10", 1900]
+    ]);
+    expect((await storage.listGoals("user-1"))[1].weekdays).toEqual({ saturday: { calories: 2400 } });
+    expect(await storage.deleteGoal("user-1", "2026-01-01")).toBe(true);
+    expect(await storage.deleteGoal("user-1", "2026-01-01")).toBe(false);
+    expect(await storage.listGoals("user-1")).toHaveLength(1);
+  });
+
+  it("manages saved foods and recipes", async () => {
+    const food = await storage.createFood("user-1", {
+      name: "Latte",
+      quantity: "1 cup",
+      calories: 190,
+      protein: 10,
+      carbs: 15,
+      fat: 7,
+      fiber: 0
+    });
+    await storage.createFood("user-1", { name: "Apple", quantity: "1", calories: 95, protein: 0, carbs: 25, fat: 0, fiber: 4 });
+    const updated = await storage.updateFood("user-1", food.food_id, { calories: 200 });
+
+    expect(updated).toMatchObject({ food_id: food.food_id, name: "Latte", calories: 200, created_at: food.created_at });
+    expect(await storage.getFood("user-1", food.food_id)).toEqual(updated);
+    expect((await storage.listFoods("user-1")).map((item) => item.name)).toEqual(["Apple", "Latte"]);
+    expect(await storage.deleteFood("user-1", food.food_id)).toBe(true);
+    expect(await storage.getFood("user-1", food.food_id)).toBeNull();
+    expect(await storage.updateFood("user-1", food.food_id, { calories: 1 })).toBeNull();
+
+    const recipe = await storage.createRecipe("user-1", {
+      name: "Porridge",
+      servings: 2,
+      ingredients: [{ name: "Oats", quantity: "80g", calories: 300, protein: 10, carbs: 50, fat: 6, fiber: 8 }]
+    });
+    const renamed = await storage.updateRecipe("user-1", recipe.recipe_id, { name: "Overnight oats" });
+
+    expect(renamed).toMatchObject({ recipe_id: recipe.recipe_id, name: "Overnight oats", servings: 2 });
+    expect(await storage.listRecipes("user-1")).toEqual([renamed]);
+    expect(await storage.deleteRecipe("user-1", recipe.recipe_id)).toBe(true);
+    expect(await storage.deleteRecipe("user-1", recipe.recipe_id)).toBe(false);
+  });
+
+  it("lists weigh-ins oldest first within a range", async () => {
+    const later = await storage.createWeight("user-1", {
+      date: "2026-02-04",
+      weight: 80.2,
+      unit: "kg",
+      timestamp: "2026-02-04T07:00:00.000Z"
+    });
+    await storage.createWeight("user-1", { date: "2026-02-03", weight: 80.5, unit: "kg", timestamp: "2026-02-03T07:00:00.000Z" });
+    await storage.createWeight("user-1", { date: "2026-03-01", weight: 79, unit: "kg", timestamp: "2026-03-01T07:00:00.000Z" });
+
+    expect((await storage.listWeights("user-1", "2026-02-01", "2026-02-28")).map((weight) => weight.weight)).toEqual([
+      80.5, 80.2
+    ]);
+    expect(await storage.deleteWeight("user-1", later.weight_id)).toBe(true);
+    expect(await storage.deleteWeight("user-1", later.weight_id)).toBe(false);
+  });
+
+  it("stores, updates and lists activities oldest first within a range", async () => {
+    const activity = {
+      date: "2026-02-04",
+      name: "Running",
+      duration_minutes: 30,
+      calories_burned: 300,
+      source: "manual",
+      timestamp: "2026-02-04T07:00:00.000Z"
+    };
+    const run = await storage.createActivity("user-1", activity);
+    await storage.createActivity("user-1", { ...activity, date: "2026-02-03", name: "Walk", calories_burned: 120 });
+    await storage.createActivity("user-1", { ...activity, date: "2026-03-01" });
+
+    expect(run).toMatchObject({ ...activity, updated_at: activity.timestamp });
+    expect(await storage.getActivity("user-1", run.activity_id)).toEqual(run);
+    expect(await storage.getActivity("user-2", run.activity_id)).toBeNull();
+
+    const updated = await storage.updateActivity("user-1", run.activity_id, { calories_burned: 350 });
+    expect(updated).toMatchObject({ activity_id: run.activity_id, name: "Running", calories_burned: 350 });
+    expect(await storage.updateActivity("user-2", run.activity_id, { calories_burned: 1 })).toBeNull();
+
+    expect((await storage.listActivities("user-1", "2026-02-01", "2026-02-28")).map((item) => item.name)).toEqual([
+      "Walk",
+      "Running"
+    ]);
+    expect(await storage.listActivities("user-2", "2026-02-01", "2026-02-28")).toEqual([]);
+    expect(await storage.deleteActivity("user-2", run.activity_id)).toBe(false);
+    expect(await storage.deleteActivity("user-1", run.activity_id)).toBe(true);
+    expect(await storage.getActivity("user-1", run.activity_id)).toBeNull();
+  });
+
+  it("stores webhooks and lists their deliveries newest first", async () => {
+    const webhook = await storage.createWebhook("user-1", {
+      url: "https://example.com/hook",
+      events: ["entry.created"],
+      secret: "shh",
+      created_at: "2026-02-03T00:00:00.000Z"
+    });
+    const other = await storage.createWebhook("user-1", {
+      url: "https://example.com/other",
+      events: ["entry.deleted", "daily_total.changed"],
+      secret: "psst",
+      created_at: "2026-02-04T00:00:00.000Z"
+    });
+    expect((await storage.listWebhooks("user-1")).map((item) => item.webhook_id)).toEqual([
+      webhook.webhook_id,
+      other.webhook_id
+    ]);
+    expect(await storage.listWebhooks("user-2")).toEqual([]);
+
+    const delivery = {
+      webhook_id: webhook.webhook_id,
+      event_id: "event-1",
+      event_type: "entry.created",
+      url: webhook.url,
+      status: "succeeded" as const,
+      attempts: 1,
+      response_status: 200,
+      error: null,
+      timestamp: "2026-02-03T08:00:00.000Z",
+      completed_at: "2026-02-03T08:00:01.000Z"
+    };
+    await storage.recordDelivery("user-1", delivery);
+    const latest = await storage.recordDelivery("user-1", {
+      ...delivery,
+      event_id: "event-2",
+      status: "failed",
+      attempts: 4,
+      response_status: 503,
+      error: "Receiver responded with HTTP 503",
+      timestamp: "2026-02-03T09:00:00.000Z"
+    });
+    await storage.recordDelivery("user-1", { ...delivery, webhook_id: other.webhook_id, event_id: "event-3" });
+
+    expect(latest).toMatchObject({ event_id: "event-2", status: "failed", response_status: 503 });
+    expect((await storage.listDeliveries("user-1", webhook.webhook_id, 10)).map((item) => item.event_id)).toEqual([
+      "event-2",
+      "event-1"
+    ]);
+    expect(await storage.listDeliveries("user-1", undefined, 2)).toHaveLength(2);
+    expect(await storage.listDeliveries("user-2", undefined, 10)).toEqual([]);
+
+    expect(await storage.deleteWebhook("user-2", webhook.webhook_id)).toBe(false);
+    expect(await storage.deleteWebhook("user-1", webhook.webhook_id)).toBe(true);
+    expect((await storage.listWebhooks("user-1")).map((item) => item.webhook_id)).toEqual([other.webhook_id]);
+  });
+
+  it("claims idempotency keys once until they expire", async () => {
+    const claim = {
+      key: "retry-1",
+      request_hash: "hash-1",
+      response: null,
+      created_at: "2026-02-03T08:00:00.000Z",
+      expires_at: "2026-02-03T08:05:00.000Z"
+    };
+    expect(await storage.claimIdempotencyKey("user-1", claim)).toBeNull();
+    expect(await storage.claimIdempotencyKey("user-1", { ...claim, request_hash: "hash-2" })).toEqual(claim);
+    expect(await storage.claimIdempotencyKey("user-2", claim)).toBeNull();
+
+    const response = { status_code: 200, content_type: "application/json", body: '{"ok":true}' };
+    await storage.completeIdempotencyKey("user-1", "retry-1", response, "2026-02-04T08:00:00.000Z");
+    expect(await storage.claimIdempotencyKey("user-1", { ...claim, created_at: "2026-02-03T09:00:00.000Z" })).toEqual({
+      ...claim,
+      response,
+      expires_at: "2026-02-04T08:00:00.000Z"
+    });
+    expect(
+      await storage.claimIdempotencyKey("user-1", {
+        ...claim,
+        request_hash: "hash-3",
+        created_at: "2026-02-04T08:00:00.000Z",
+        expires_at: "2026-02-04T08:05:00.000Z"
+      })
+    ).toBeNull();
+
+    await storage.releaseIdempotencyKey("user-2", "retry-1");
+    expect(await storage.claimIdempotencyKey("user-2", claim)).toBeNull();
+  });
+
+  it("merges settings updates", async () => {
+    expect(await storage.getSettings("user-1")).toEqual({});
+    await storage.updateSettings("user-1", { timezone: "Europe/London" });
+    expect(await storage.updateSettings("user-1", { updated_at: "2026-02-03T00:00:00.000Z" })).toEqual({
+      timezone: "Europe/London",
+      updated_at: "2026-02-03T00:00:00.000Z"
+    });
+    expect(await storage.getSettings("user-1")).toEqual({
+      timezone: "Europe/London",
+      updated_at: "2026-02-03T00:00:00.000Z"
+    });
+  });
+
+  it("has no legacy data to adopt and leaves other users' data alone", async () => {
+    const [entry] = await storage.createEntries("user-1", [entryInput()], META);
+    expect(await storage.adoptLegacyData("user-2")).toEqual({ entries: 0, totals: 0 });
+    expect(await storage.getEntry("user-2", entry.entry_id)).toBeNull();
+    expect((await storage.getTotal("user-1", "2026-02-03")).total_calories).toBe(300);
+  });
+
+  it("never exposes one user's data to another", async () => {
+    const [entry] = await storage.createEntries("user-1", [entryInput()], META);
+    const food = await storage.createFood("user-1", { name: "Latte", quantity: "", calories: 190, protein: 0, carbs: 0, fat: 0, fiber: 0 });
+    await storage.updateSettings("user-1", { timezone: "Europe/London" });
+
+    expect(await storage.getEntry("user-2", entry.entry_id)).toBeNull();
+    expect(await storage.updateEntry("user-2", entry.entry_id, () => ({ calories: 1 }), META)).toBeNull();
+    expect(await storage.deleteEntry("user-2", entry.entry_id, META)).toBeNull();
+    expect(await storage.undoEntry("user-2", entry.entry_id, META.timestamp)).toEqual({ status: "nothing_to_undo" });
+    expect(await storage.listEntriesRange("user-2", "2026-01-01", "2026-12-31", { limit: 10 })).toEqual({
+      entries: [],
+      next_cursor: null
+    });
+    expect(await storage.getTotalsRange("user-2", "2026-01-01", "2026-12-31")).toEqual([]);
+    expect(await storage.getFood("user-2", food.food_id)).toBeNull();
+    expect(await storage.deleteFood("user-2", food.food_id)).toBe(false);
+    expect(await storage.listRevisions("user-2", entry.entry_id)).toEqual([]);
+    expect(await storage.getSettings("user-2")).toEqual({});
+    expect(await storage.getEntry("user-1", entry.entry_id)).toEqual(entry);
+  });
+});
+
+describe("chunkEntriesByDate", () => {
+  it("packs whole dates into chunks and splits only dates larger than a chunk", () => {
+    const entries = [
+      ...Array.from({ length: 2 }, () => ({ ...entryInput(), date: "2026-02-01" })),
+      ...Array.from({ length: 3 }, () => ({ ...entryInput(), date: "2026-02-02" })),
+      ...Array.from({ length: 5 }, () => ({ ...entryInput(), date: "2026-02-03" })),
+      { ...entryInput(), date: "2026-02-01" }
+    ];
+
+    expect(chunkEntriesByDate(entries, 4).map((chunk) => chunk.map((entry) => entry.date.slice(-2)))).toEqual([
+      ["01", "01", "01"],
+      ["02", "02", "02"],
+      ["03", "03", "03", "03"],
+      ["03"]
+    ]);
+    expect(chunkEntriesByDate([])).toEqual([]);
+  });
+});
+
+describe("planUndo", () => {
+  const entry: Entry = { ...entryInput(), entry_id: "entry-1" };
+
+  function revision(sequence: number, before: Entry | null, after: Entry | null): Revision {
+    return { revision_id: `revision-${sequence}`, entry_id: entry.entry_id, action: "update", before, after, ...META, sequence };
+  }
+
+  it("reverts the last revision of a request whatever order the revisions were read in", () => {
+    const first = revision(0, entry, { ...entry, calories: 400 });
+    const second = revision(1, { ...entry, calories: 400 }, { ...entry, calories: 500 });
+
+    expect(planUndo([second, first].sort(compareRevisions), { ...entry, calories: 500 })).toMatchObject({
+      status: "undone",
+      revision: { revision_id: second.revision_id },
+      after: { calories: 400 }
+    });
+  });
+
+  it("reports a conflict when the entry no longer matches its latest revision", () => {
+    const update = revision(0, entry, { ...entry, calories: 400 });
+
+    expect(planUndo([update], { ...entry, calories: 450 })).toEqual({ status: "conflict" });
+    expect(planUndo([update], { ...entry, calories: 400, meal_type: "lunch" })).toEqual({ status: "conflict" });
+    expect(planUndo([update], null)).toEqual({ status: "conflict" });
+    expect(planUndo([update], { ...entry, calories: 400 })).toMatchObject({ status: "undone", after: entry });
+  });
+});
+
+describe("sqlite migrations", () => {
+  const dir = mkdtempSync(join(tmpdir(), "calorie-logger-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps data across reopening and only applies missing migrations", async () => {
+    const filename = join(dir, "reopen.db");
+    const first = createSqliteStorage(filename);
+    const [entry] = await first.createEntries("user-1", [entryInput()], META);
+
+    const db = new Database(filename);
+    const version = Number(db.pragma("user_version", { simple: true }));
+    expect(version).toBeGreaterThan(0);
+    expect(migrate(db)).toBe(version);
+    db.close();
+
+    const second = createSqliteStorage(filename);
+    expect(await second.getEntry("user-1", entry.entry_id)).toEqual(entry);
+    expect((await second.getTotal("user-1", "2026-02-03")).total_calories).toBe(300);
+  });
+
+  it("refuses databases written by a newer schema", () => {
+    const db = new Database(join(dir, "newer.db"));
+    db.pragma("user_version = 999");
+    expect(() => migrate(db)).toThrow(/newer than this build supports/);
+    db.close();
+  });
+});
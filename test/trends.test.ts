@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { computeTrends, fromKg, toKg } from "../src/trends.js";
+
+function dates(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `2026-03-${String(index + 1).padStart(2, "0")}`);
+}
+
+describe("trends", () => {
+  it("converts between kg and lb", () => {
+    expect(toKg(100, "lb")).toBeCloseTo(45.359, 3);
+    expect(fromKg(toKg(180, "lb"), "lb")).toBeCloseTo(180, 6);
+  });
+
+  it("carries the trend across days without weigh-ins", () => {
+    const days = computeTrends({
+      dates: dates(4),
+      weightsKg: new Map([
+        ["2026-03-02", 80],
+        ["2026-03-04", 81]
+      ]),
+      intake: new Map(),
+      window: 2,
+      unit: "kg"
+    });
+
+    expect(days.map((day) => day.trend)).toEqual([null, 80, 80, 80.1]);
+    expect(days.map((day) => day.weight)).toEqual([null, 80, null, 81]);
+  });
+
+  it("estimates TDEE from intake and trend change, ignoring unlogged days", () => {
+    const window = 8;
+    const all = dates(window);
+    const days = computeTrends({
+      dates: all,
+      weightsKg: new Map(all.map((date) => [date, 80])),
+      intake: new Map(all.filter((_, index) => index % 2 === 0).map((date) => [date, 2400])),
+      window,
+      unit: "kg"
+    });
+
+    expect(days[window - 2].tdee).toBeNull();
+    expect(days[window - 1].tdee).toBe(2400);
+  });
+});
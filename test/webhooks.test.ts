@@ -0,0 +1,117 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMemoryStorage, type StorageAdapter, type Webhook } from "../src/storage.js";
+import { createWebhookDispatcher, createWebhookEvent, isPrivateHost, signWebhook } from "../src/webhooks.js";
+
+interface Received {
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+describe("webhooks", () => {
+  let receiver: Server;
+  let url: string;
+  let received: Received[];
+  /** Status codes the receiver answers with, in order; 200 once they run out. */
+  let responses: number[];
+  let storage: StorageAdapter;
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+    storage = createMemoryStorage();
+    receiver = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = responses.shift() ?? 200;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  async function subscribe(events: Webhook["events"] = ["entry.created", "daily_total.changed"]) {
+    return storage.createWebhook("user-1", { url, events, secret: "shh", created_at: "2026-02-03T00:00:00.000Z" });
+  }
+
+  it("signs deliveries and sends subscribed events in order", async () => {
+    const webhook = await subscribe();
+    const dispatcher = createWebhookDispatcher(storage, { backoffMs: 1, allowPrivateHosts: true });
+
+    dispatcher.emit("user-1", [
+      { type: "entry.created", data: { entry_id: "entry-1" } },
+      { type: "entry.deleted", data: { entry_id: "entry-1" } },
+      { type: "daily_total.changed", data: { date: "2026-02-03" } }
+    ]);
+    dispatcher.emit("user-2", [{ type: "entry.created", data: {} }]);
+    await dispatcher.idle();
+
+    expect(received.map((request) => JSON.parse(request.body).type)).toEqual(["entry.created", "daily_total.changed"]);
+    const [first] = received;
+    expect(first.headers["x-webhook-id"]).toBe(webhook.webhook_id);
+    expect(first.headers["x-webhook-signature"]).toBe(
+      signWebhook("shh", String(first.headers["x-webhook-timestamp"]), first.body)
+    );
+    expect(JSON.parse(first.body)).toMatchObject({ type: "entry.created", data: { entry_id: "entry-1" } });
+
+    const deliveries = await storage.listDeliveries("user-1", webhook.webhook_id, 10);
+    expect(deliveries).toHaveLength(2);
+    expect(deliveries.every((delivery) => delivery.status === "succeeded" && delivery.attempts === 1)).toBe(true);
+  });
+
+  it("retries server errors with backoff and gives up on client errors", async () => {
+    const webhook = await subscribe();
+    const dispatcher = createWebhookDispatcher(storage, { retries: 2, backoffMs: 1, allowPrivateHosts: true });
+
+    responses = [503, 500];
+    const retried = await dispatcher.deliver("user-1", webhook, createWebhookEvent("entry.created", {}));
+    expect(retried).toMatchObject({ status: "succeeded", attempts: 3, response_status: 200, error: null });
+
+    responses = [503, 503, 503];
+    const exhausted = await dispatcher.deliver("user-1", webhook, createWebhookEvent("entry.created", {}));
+    expect(exhausted).toMatchObject({ status: "failed", attempts: 3, response_status: 503 });
+
+    responses = [410];
+    const rejected = await dispatcher.deliver("user-1", webhook, createWebhookEvent("entry.created", {}));
+    expect(rejected).toMatchObject({ status: "failed", attempts: 1, response_status: 410 });
+    expect(received).toHaveLength(7);
+  });
+
+  it("refuses to deliver to private hosts unless they are allowed", async () => {
+    const webhook = await subscribe();
+    const dispatcher = createWebhookDispatcher(storage, { retries: 1, backoffMs: 1 });
+
+    const delivery = await dispatcher.deliver("user-1", webhook, createWebhookEvent("entry.created", {}));
+    expect(delivery).toMatchObject({ status: "failed", attempts: 0, response_status: null });
+    expect(delivery.error).toContain("private host 127.0.0.1");
+    expect(received).toHaveLength(0);
+  });
+
+  it("recognises private hosts", () => {
+    for (const host of ["localhost", "api.localhost", "127.0.0.1", "0.0.0.0", "172.20.1.1", "169.254.169.254", "[::1]", "[fd00::1]"]) {
+      expect(isPrivateHost(host), host).toBe(true);
+    }
+    for (const host of ["example.com", "8.8.8.8", "172.32.0.1", "[2001:4860:4860::8888]"]) {
+      expect(isPrivateHost(host), host).toBe(false);
+    }
+  });
+
+  it("records unreachable receivers as failed deliveries", async () => {
+    const webhook = await subscribe();
+    await new Promise((resolve) => receiver.close(resolve));
+    receiver = createServer();
+    const dispatcher = createWebhookDispatcher(storage, { retries: 1, backoffMs: 1, allowPrivateHosts: true });
+
+    const delivery = await dispatcher.deliver("user-1", webhook, createWebhookEvent("entry.created", {}));
+    expect(delivery).toMatchObject({ status: "failed", attempts: 2, response_status: null });
+    expect(delivery.error).toBeTruthy();
+  });
+});